@@ -0,0 +1,296 @@
+// Account Health Scoring
+// Per-account metrics from order data and the policy-driven score built on
+// them, shared by compute_account_health and simulate_account_health
+
+import { z } from "zod";
+import type { Order } from "./mock-data";
+import {
+  accountMetricsLineage,
+  orderMoneyLineage,
+  RedactedColumn,
+  redactRows,
+} from "./redaction";
+import type { ScoringPolicy } from "./scoring-policy";
+import type { DemoUserInfo } from "./utils";
+import { fetchExternalSignals, ProviderStatus } from "./signal-connectors";
+
+// --- Schemas ---
+export const TierSchema = z.enum(["good", "watch", "at_risk"]);
+
+export const SignalName = z.enum([
+  "recency",
+  "momentum",
+  "satisfaction",
+  "reliability",
+]);
+
+export const AccountMetricsSchema = z.object({
+  lastOrderDays: z.number().int().nonnegative(),
+  orderCountWindow: z.number().int().nonnegative(),
+  spendWindow: z.number().nonnegative(),
+  spendPrevWindow: z.number().nonnegative(),
+  spendDeltaPct: z.number(), // -100..+∞
+  nps: z.number().nullable(), // from external system
+  openP1Tickets: z.number().int().nonnegative(), // external
+  slaBreachesWindow: z.number().int().nonnegative(), // external
+});
+export type AccountMetrics = z.infer<typeof AccountMetricsSchema>;
+
+const SignalContributionSchema = z.object({
+  value: z.number().min(0).max(100), // normalized signal
+  weight: z.number(), // from the scoring policy
+  points: z.number(), // value * weight, the signal's share of healthScore
+  maxGain: z.number(), // points gained if the signal reached 100
+});
+
+export const SignalContributionsSchema = z.object({
+  recency: SignalContributionSchema,
+  momentum: SignalContributionSchema,
+  satisfaction: SignalContributionSchema,
+  reliability: SignalContributionSchema,
+});
+type SignalContributions = z.infer<typeof SignalContributionsSchema>;
+
+// null when the account is already in the top tier
+export const NextTierSchema = z
+  .object({
+    tier: z.enum(["good", "watch"]),
+    pointsNeeded: z.number(),
+    fixFirst: SignalName, // signal with the largest possible gain
+  })
+  .nullable();
+type NextTier = z.infer<typeof NextTierSchema>;
+
+// --- Order Metrics ---
+// Current analysis window and the previous window of equal length
+export interface AnalysisWindows {
+  now: Date;
+  since: Date;
+  prevSince: Date;
+}
+
+export function analysisWindows(
+  windowDays: number,
+  now: Date = new Date(),
+): AnalysisWindows {
+  const since = new Date(now.getTime() - windowDays * 24 * 3600 * 1000);
+  const prevSince = new Date(since.getTime() - windowDays * 24 * 3600 * 1000);
+  return { now, since, prevSince };
+}
+
+export function spendDelta(spendWindow: number, spendPrevWindow: number) {
+  return spendWindow === 0 && spendPrevWindow === 0
+    ? 0
+    : ((spendWindow - spendPrevWindow) / (spendPrevWindow || 1)) * 100;
+}
+
+// Metrics derived from one account's orders; external signals are added later
+export function orderMetrics(
+  userOrders: Order[],
+  { now, since, prevSince }: AnalysisWindows,
+): Omit<AccountMetrics, "nps" | "openP1Tickets" | "slaBreachesWindow"> {
+  // Find last order date
+  const lastOrder =
+    userOrders.length > 0
+      ? Math.max(...userOrders.map((o) => new Date(o.created).getTime()))
+      : 0;
+  const lastOrderDays =
+    lastOrder > 0
+      ? Math.floor((now.getTime() - lastOrder) / (24 * 3600 * 1000))
+      : 999;
+
+  // Current window metrics
+  const windowOrders = userOrders.filter(
+    (o) => new Date(o.created).getTime() >= since.getTime(),
+  );
+  const orderCountWindow = windowOrders.length;
+  const spendWindow = windowOrders.reduce((sum, o) => sum + o.total, 0);
+
+  // Previous window metrics
+  const prevWindowOrders = userOrders.filter((o) => {
+    const orderTime = new Date(o.created).getTime();
+    return orderTime >= prevSince.getTime() && orderTime < since.getTime();
+  });
+  const spendPrevWindow = prevWindowOrders.reduce((sum, o) => sum + o.total, 0);
+
+  return {
+    lastOrderDays,
+    orderCountWindow,
+    spendWindow,
+    spendPrevWindow,
+    spendDeltaPct: spendDelta(spendWindow, spendPrevWindow),
+  };
+}
+
+// One account's full metrics as of now: order metrics plus fetched signals
+export async function currentAccountMetrics(
+  accountId: string,
+  userOrders: Order[],
+  windowDays: number,
+): Promise<{
+  metrics: AccountMetrics;
+  supportAvailable: boolean;
+  providers: ProviderStatus[];
+}> {
+  const windows = analysisWindows(windowDays);
+  const signals = await fetchExternalSignals([accountId], windowDays);
+  const support = signals.support?.[accountId];
+  return {
+    metrics: {
+      ...orderMetrics(userOrders, windows),
+      nps: signals.nps?.[accountId] ?? null,
+      openP1Tickets: support?.openP1Tickets ?? 0,
+      slaBreachesWindow: support?.slaBreachesWindow ?? 0,
+    },
+    supportAvailable: support !== undefined,
+    providers: signals.providers,
+  };
+}
+
+// --- Scoring ---
+export function scoreAccount(
+  m: AccountMetrics,
+  policy: ScoringPolicy,
+  supportAvailable = true,
+): {
+  score: number;
+  tier: z.infer<typeof TierSchema>;
+  contributions: SignalContributions;
+  nextTier: NextTier;
+  reasons: string[];
+} {
+  const { weights, penalties, tiers, reasons: thresholds } = policy;
+  const reasons: string[] = [];
+  const clamp = (v: number, lo: number, hi: number) =>
+    Math.max(lo, Math.min(hi, v));
+
+  // Signals (normalize to 0..100)
+  const recency = clamp(100 - m.lastOrderDays, 0, 100); // more recent = better
+  const momentum = clamp((m.spendDeltaPct + 100) / 2, 0, 100); // -100% => 0, +100% => 100
+  const satisfaction = m.nps == null ? 50 : clamp(m.nps, 0, 100); // missing => neutral
+  const reliabilityPenalty = supportAvailable
+    ? clamp(
+        100 -
+          (m.openP1Tickets * penalties.openP1Ticket +
+            m.slaBreachesWindow * penalties.slaBreach),
+        0,
+        100,
+      )
+    : 50; // missing => neutral
+
+  // Weighted score, kept per signal so callers can see what drove it
+  const round1 = (v: number) => Math.round(v * 10) / 10;
+  const signals = {
+    recency,
+    momentum,
+    satisfaction,
+    reliability: reliabilityPenalty,
+  };
+  const contributions = Object.fromEntries(
+    SignalName.options.map((name) => {
+      const value = signals[name];
+      const weight = weights[name];
+      return [
+        name,
+        {
+          value: round1(value),
+          weight,
+          points: round1(value * weight),
+          maxGain: round1((100 - value) * weight),
+        },
+      ];
+    }),
+  ) as SignalContributions;
+  const score = clamp(
+    SignalName.options.reduce(
+      (sum, name) => sum + signals[name] * weights[name],
+      0,
+    ),
+    0,
+    100,
+  );
+
+  // Reasons (deterministic, from the policy thresholds)
+  if (m.lastOrderDays > thresholds.inactiveDays) {
+    reasons.push(`No recent orders (>${thresholds.inactiveDays} days)`);
+  }
+  if (m.spendDeltaPct < -thresholds.spendDropPct) {
+    reasons.push(`Spend down >${thresholds.spendDropPct}% vs prior window`);
+  }
+  if ((m.nps ?? 50) < thresholds.lowNps) reasons.push("Low NPS score");
+  if (m.openP1Tickets > 0)
+    reasons.push(`${m.openP1Tickets} open P1 support ticket(s)`);
+  if (m.slaBreachesWindow > 0)
+    reasons.push(`${m.slaBreachesWindow} recent SLA breach(es)`);
+  if (m.orderCountWindow === 0) reasons.push("No orders in analysis window");
+  if (!supportAvailable) {
+    reasons.push("Support data unavailable; reliability scored as neutral");
+  }
+
+  const tier =
+    score >= tiers.good ? "good" : score >= tiers.watch ? "watch" : "at_risk";
+
+  // Distance to the next tier up, and the signal with the most room to close it
+  const next =
+    tier === "at_risk"
+      ? { tier: "watch" as const, cutoff: tiers.watch }
+      : tier === "watch"
+        ? { tier: "good" as const, cutoff: tiers.good }
+        : undefined;
+  const fixFirst = SignalName.options.reduce((best, name) =>
+    contributions[name].maxGain > contributions[best].maxGain ? name : best,
+  );
+  const nextTier = next
+    ? {
+        tier: next.tier,
+        pointsNeeded: Math.max(0.1, round1(next.cutoff - score)),
+        fixFirst,
+      }
+    : null;
+
+  return { score, tier, contributions, nextTier, reasons };
+}
+
+// --- Redaction ---
+// The momentum signal is normalized from spendDeltaPct, so it carries the
+// order totals' rule along with the money metrics
+const momentumLineage = orderMoneyLineage("value", "points", "maxGain");
+
+// Redact the order-derived parts of scored accounts; fixed output schemas,
+// so hidden fields are masked
+export function redactScores<
+  T extends { metrics: AccountMetrics; contributions: SignalContributions },
+>(
+  scores: T[],
+  role: DemoUserInfo["role"] | undefined,
+): { rows: T[]; redactedColumns: RedactedColumn[] } {
+  const metrics = redactRows(
+    scores.map((s) => s.metrics),
+    accountMetricsLineage,
+    role,
+    { removeHidden: false },
+  );
+  const momentum = redactRows(
+    scores.map((s) => s.contributions.momentum),
+    momentumLineage,
+    role,
+    { removeHidden: false },
+  );
+  return {
+    rows: scores.map((s, i) => ({
+      ...s,
+      metrics: metrics.rows[i],
+      contributions: { ...s.contributions, momentum: momentum.rows[i] },
+    })),
+    redactedColumns: [
+      ...metrics.redactedColumns.map((c) => ({
+        ...c,
+        column: `metrics.${c.column}`,
+      })),
+      ...momentum.redactedColumns.map((c) => ({
+        ...c,
+        column: `contributions.momentum.${c.column}`,
+      })),
+    ],
+  };
+}
@@ -0,0 +1,85 @@
+// API Key CLI
+// Adds a hashed API key to the credentials file used with CREDENTIAL_STORE=file
+//
+//   pnpm add-api-key --role user --username analyst
+//   pnpm add-api-key --role admin --username ops --client-id ops-dashboard
+//   pnpm add-api-key --role user --username ci --permissions "read:users"
+//
+// The new key is the only thing written to stdout, and it can't be recovered
+// later: the file only keeps its SHA-256 hash
+
+import { randomBytes } from "node:crypto";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  apiKeyPrefix,
+  Credential,
+  CredentialFile,
+  credentialsPath,
+  hashApiKey,
+  readCredentialFile,
+  ROLE_PERMISSIONS,
+} from "./credential-store.js";
+
+const { values } = parseArgs({
+  options: {
+    role: { type: "string", default: "user" },
+    username: { type: "string" },
+    "user-id": { type: "string" },
+    "client-id": { type: "string" },
+    permissions: { type: "string" }, // space-separated; defaults to the role's
+    key: { type: "string" }, // use this key instead of generating one
+    file: { type: "string" },
+  },
+});
+
+function main() {
+  const role = values.role as Credential["user"]["role"];
+  if (!(role in ROLE_PERMISSIONS)) {
+    throw new Error(
+      `Unknown role "${role}". Use one of: ${Object.keys(ROLE_PERMISSIONS).join(", ")}`,
+    );
+  }
+  if (!values.username) throw new Error("--username is required");
+
+  const file = values.file ? path.resolve(values.file) : credentialsPath();
+  const store: CredentialFile = existsSync(file)
+    ? readCredentialFile(file)
+    : { credentials: [] };
+
+  const key = values.key ?? `sk-${role}-${randomBytes(24).toString("hex")}`;
+  const keyHash = hashApiKey(key);
+  if (store.credentials.some((c) => c.keyHash === keyHash)) {
+    throw new Error(`That key is already in ${file}`);
+  }
+
+  store.credentials.push({
+    keyHash,
+    keyPrefix: apiKeyPrefix(key),
+    clientId: values["client-id"] ?? `${values.username}-client`,
+    user: {
+      userId: values["user-id"] ?? `${role}-${values.username}`,
+      username: values.username,
+      role,
+      ...(values.permissions
+        ? { permissions: values.permissions.split(" ").filter(Boolean) }
+        : {}),
+    },
+  });
+
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(store, null, 2)}\n`, { mode: 0o600 });
+
+  console.log(key);
+  console.error(
+    `Added ${role} key for ${values.username} to ${file} (${store.credentials.length} keys). Start the server with CREDENTIAL_STORE=file`,
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
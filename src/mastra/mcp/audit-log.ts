@@ -0,0 +1,152 @@
+// Query Audit Log
+// Append-only JSONL record of every tool call: who called, what ran, and how it went
+
+import { z } from "zod";
+import { MCPTool } from "@mastra/mcp";
+import { ErrorCodeSchema, reportToolError, toToolError } from "./errors";
+import { appendJsonLines, readJsonLines } from "./jsonl-store";
+import { resolveAuthContext, ToolExecuteOptions } from "./utils";
+
+export const AuditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  userId: z.string().optional(),
+  username: z.string().optional(),
+  role: z.string().optional(),
+  clientId: z.string().optional(),
+  sessionId: z.string().optional(),
+  sql: z.string().optional(),
+  input: z.record(z.any()).optional(),
+  permission: z.string().optional(),
+  rowCount: z.number().optional(),
+  durationMs: z.number(),
+  outcome: z.enum(["success", "error"]),
+  error: z.string().optional(),
+  errorCode: ErrorCodeSchema.optional(),
+});
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+
+// What each tool reports about a finished call
+export interface AuditSummary {
+  sql?: string;
+  permission?: string;
+  rowCount?: number;
+}
+
+export interface AuditFilter {
+  user?: string; // matches userId or username
+  tool?: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+}
+
+// AUDIT_LOG_PATH=path to the JSONL file (default: data/audit.jsonl)
+const auditLogPath = () => process.env.AUDIT_LOG_PATH || "data/audit.jsonl";
+
+export function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  return appendJsonLines(auditLogPath(), [entry]);
+}
+
+export async function readAuditEntries(
+  filter: AuditFilter = {},
+): Promise<AuditEntry[]> {
+  const entries = await readJsonLines<AuditEntry>(auditLogPath());
+  const since = filter.since ? Date.parse(filter.since) : undefined;
+  const until = filter.until ? Date.parse(filter.until) : undefined;
+
+  return entries.filter((entry) => {
+    const time = Date.parse(entry.timestamp);
+    if (filter.tool && entry.tool !== filter.tool) return false;
+    if (
+      filter.user &&
+      entry.userId !== filter.user &&
+      entry.username !== filter.user
+    ) {
+      return false;
+    }
+    if (since !== undefined && time < since) return false;
+    if (until !== undefined && time >= until) return false;
+    return true;
+  });
+}
+
+// The schemas withAudit types a tool's execute and summary against
+export interface AuditedTool<
+  TInput extends z.ZodTypeAny,
+  TOutput extends z.ZodTypeAny,
+> {
+  id: string;
+  inputSchema: TInput;
+  outputSchema: TOutput;
+}
+
+type ExecuteArgs<TInput extends z.ZodTypeAny> = Parameters<
+  MCPTool<TInput>["execute"]
+>;
+
+// Wrap a tool's execute so every call is recorded, including failures.
+// summarize runs for both; output is undefined when the call failed, and a
+// FORBIDDEN error records the permission the caller was missing.
+// Failures are classified into typed errors and reported to the MCP client
+// as an error result (see errors.ts)
+export function withAudit<
+  TInput extends z.ZodTypeAny,
+  TOutput extends z.ZodTypeAny,
+>(
+  tool: AuditedTool<TInput, TOutput>,
+  execute: (
+    params: ExecuteArgs<TInput>[0],
+    options: ExecuteArgs<TInput>[1],
+  ) => Promise<z.infer<TOutput>>,
+  summarize: (
+    input: z.infer<TInput>,
+    output: z.infer<TOutput> | undefined,
+  ) => AuditSummary,
+): MCPTool<TInput>["execute"] {
+  return async (params, options) => {
+    const startedAt = Date.now();
+    const auth = resolveAuthContext(options as ToolExecuteOptions);
+    const base = {
+      tool: tool.id,
+      userId: auth.user?.userId,
+      username: auth.user?.username,
+      role: auth.user?.role,
+      clientId: auth.authInfo?.clientId,
+      sessionId: auth.sessionId,
+    };
+
+    try {
+      const output = await execute(params, options);
+      await appendAuditEntry({
+        timestamp: new Date(startedAt).toISOString(),
+        ...base,
+        input: params.context,
+        ...summarize(params.context, output),
+        durationMs: Date.now() - startedAt,
+        outcome: "success",
+      });
+      return output;
+    } catch (error) {
+      const toolError = toToolError(error);
+      console.error(
+        `[${tool.id}] Error: ${toolError.code} ${toolError.message}`,
+      );
+      const requiredScopes = toolError.details?.requiredScopes;
+      await appendAuditEntry({
+        timestamp: new Date(startedAt).toISOString(),
+        ...base,
+        input: params.context,
+        ...summarize(params.context, undefined),
+        ...(Array.isArray(requiredScopes)
+          ? { permission: requiredScopes.join(", ") }
+          : {}),
+        durationMs: Date.now() - startedAt,
+        outcome: "error",
+        error: toolError.message,
+        errorCode: toolError.code,
+      });
+      reportToolError(toolError);
+      throw toolError;
+    }
+  };
+}
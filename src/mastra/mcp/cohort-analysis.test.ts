@@ -0,0 +1,83 @@
+// cohort_analysis period tests: monthly and quarterly periods counted from a
+// join date late in the month end on the last day of shorter months
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { getCredentialStore } from "./credential-store";
+import { cohortAnalysisTool } from "../tools/cohort-analysis";
+import type { ToolExecuteOptions } from "./utils";
+
+const dir = mkdtempSync(path.join(tmpdir(), "cohort-analysis-test-"));
+process.env.AUDIT_LOG_PATH = path.join(dir, "audit.jsonl");
+process.env.DATA_SOURCE = "sqlite";
+process.env.SQLITE_PATH = path.join(dir, "analytics.db");
+
+// Calls cohort_analysis the way the MCP server does, as the admin
+async function cohortAnalysis(input: Record<string, unknown>) {
+  const context = cohortAnalysisTool.inputSchema!.parse(input);
+  const execute = cohortAnalysisTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{
+    cohorts: { cohort: string; curve: { orders: number }[] }[];
+  }>;
+  const authInfo = getCredentialStore().authenticate("api_key_admin_123")!;
+  return execute({ context }, { extra: { authInfo } } as ToolExecuteOptions);
+}
+
+const ordersPerPeriod = async (input: Record<string, unknown>) =>
+  Object.fromEntries(
+    (await cohortAnalysis(input)).cohorts.map((c) => [
+      c.cohort,
+      c.curve.map((p) => p.orders),
+    ]),
+  );
+
+describe("cohort periods", () => {
+  before(() => {
+    const db = new Database(process.env.SQLITE_PATH!);
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, city TEXT NOT NULL, joined DATE NOT NULL);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL, total REAL NOT NULL, created DATE NOT NULL);
+      INSERT INTO users VALUES (1, 'Ava', 'Waterloo', '2025-01-31'), (2, 'Noah', 'Kitchener', '2024-01-31'), (3, 'Mia', 'Toronto', '2024-11-30');
+      INSERT INTO orders VALUES
+        (1, 1, 10, '2025-02-27'), (2, 1, 10, '2025-02-28'), (3, 1, 10, '2025-03-30'), (4, 1, 10, '2025-03-31'),
+        (5, 2, 10, '2024-02-28'), (6, 2, 10, '2024-02-29'),
+        (7, 3, 10, '2025-02-27'), (8, 3, 10, '2025-02-28'), (9, 3, 10, '2025-05-30');
+    `);
+    db.close();
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("starts monthly periods on the last day of shorter months", async () => {
+    assert.deepEqual(await ordersPerPeriod({ period: "month", periods: 3 }), {
+      // Periods start Jan 31, Feb 28, Mar 31
+      "2025-01": [1, 2, 1],
+      // Periods start Jan 31, Feb 29 (leap year), Mar 31
+      "2024-01": [1, 1, 0],
+      // Periods start Nov 30, Dec 30, Jan 30 and end before Feb 28
+      "2024-11": [0, 0, 1],
+    });
+  });
+
+  it("starts quarterly periods on the last day of shorter months", async () => {
+    assert.deepEqual(
+      await ordersPerPeriod({
+        cohortBy: "city",
+        period: "quarter",
+        periods: 2,
+      }),
+      {
+        // Periods start Nov 30, Feb 28 and end before May 30
+        Toronto: [1, 1],
+        Waterloo: [4, 0],
+        Kitchener: [2, 0],
+      },
+    );
+  });
+});
@@ -0,0 +1,211 @@
+// Credential Store
+// API keys for both transports: DEMO_API_KEY on stdio and the Authorization
+// header over HTTP. Keys are kept as SHA-256 hashes and compared in constant time
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { ToolError } from "./errors";
+import type { AuthInfo, DemoUserInfo } from "./utils";
+
+// Default permissions per role, for credentials and tokens that don't list any
+export const ROLE_PERMISSIONS: Record<DemoUserInfo["role"], string[]> = {
+  admin: ["read:all", "write:all", "delete:all"],
+  user: ["read:users", "read:orders"],
+  readonly: ["read:users"],
+};
+
+// --- Credential Schema ---
+export const CredentialSchema = z.object({
+  keyHash: z
+    .string()
+    .regex(/^sha256:[0-9a-f]{64}$/, 'Expected "sha256:<64 hex characters>"'),
+  keyPrefix: z.string().optional(), // first characters of the key, for logs
+  clientId: z.string().min(1),
+  user: z.object({
+    userId: z.string().min(1),
+    username: z.string().min(1),
+    role: z.enum(["admin", "user", "readonly"]),
+    permissions: z.array(z.string()).optional(), // defaults to the role's
+  }),
+});
+export type Credential = z.infer<typeof CredentialSchema>;
+
+export const CredentialFileSchema = z.object({
+  credentials: z.array(CredentialSchema),
+});
+export type CredentialFile = z.infer<typeof CredentialFileSchema>;
+
+// Listed at startup and by tooling; never includes the hash
+export interface CredentialSummary {
+  keyPrefix?: string;
+  clientId: string;
+  username: string;
+  role: DemoUserInfo["role"];
+}
+
+export interface CredentialStore {
+  // Store name, e.g. "memory" or "file"
+  readonly kind: string;
+  // The caller's auth info, or undefined if no credential matches the key
+  authenticate(apiKey: string): NonNullable<AuthInfo> | undefined;
+  list(): CredentialSummary[];
+}
+
+export const hashApiKey = (apiKey: string) =>
+  `sha256:${createHash("sha256").update(apiKey).digest("hex")}`;
+
+// Never more than half the key, so short keys aren't logged in full
+export const apiKeyPrefix = (apiKey: string) =>
+  apiKey.slice(0, Math.min(12, Math.floor(apiKey.length / 2)));
+
+const hashBytes = (keyHash: string) =>
+  Buffer.from(keyHash.slice("sha256:".length), "hex");
+
+// --- Mock Credentials ---
+// The demo keys for stdio (api_key_*) and HTTP (sk-*); both map to the same users
+const mockUsers: Record<DemoUserInfo["role"], Credential["user"]> = {
+  admin: { userId: "admin-1", username: "admin", role: "admin" },
+  user: { userId: "user-1", username: "analyst", role: "user" },
+  readonly: { userId: "readonly-1", username: "viewer", role: "readonly" },
+};
+
+export const MOCK_API_KEYS: {
+  key: string;
+  clientId: string;
+  role: DemoUserInfo["role"];
+}[] = [
+  { key: "api_key_admin_123", clientId: "demo-admin-client", role: "admin" },
+  { key: "api_key_user_456", clientId: "demo-user-client", role: "user" },
+  {
+    key: "api_key_readonly_789",
+    clientId: "demo-readonly-client",
+    role: "readonly",
+  },
+  { key: "sk-admin-123456789", clientId: "http-admin-client", role: "admin" },
+  { key: "sk-user-987654321", clientId: "http-user-client", role: "user" },
+  {
+    key: "sk-readonly-555666777",
+    clientId: "http-readonly-client",
+    role: "readonly",
+  },
+];
+
+const mockCredentials = (): Credential[] =>
+  MOCK_API_KEYS.map(({ key, clientId, role }) => ({
+    keyHash: hashApiKey(key),
+    keyPrefix: apiKeyPrefix(key),
+    clientId,
+    user: mockUsers[role],
+  }));
+
+// --- In-Memory Store ---
+export class MemoryCredentialStore implements CredentialStore {
+  readonly kind: string = "memory";
+  private readonly entries: { credential: Credential; hash: Buffer }[];
+
+  constructor(credentials: Credential[] = mockCredentials()) {
+    this.entries = credentials.map((credential) => ({
+      credential,
+      hash: hashBytes(credential.keyHash),
+    }));
+  }
+
+  authenticate(apiKey: string): NonNullable<AuthInfo> | undefined {
+    const presented = hashBytes(hashApiKey(apiKey));
+    // Compare against every entry so the time taken doesn't reveal which matched
+    let match: Credential | undefined;
+    for (const { credential, hash } of this.entries) {
+      if (timingSafeEqual(presented, hash) && !match) match = credential;
+    }
+    if (!match) return undefined;
+
+    const permissions =
+      match.user.permissions ?? ROLE_PERMISSIONS[match.user.role];
+    const user: DemoUserInfo = { ...match.user, permissions };
+    return {
+      token: apiKey,
+      clientId: match.clientId,
+      scopes: permissions,
+      extra: { ...user },
+    };
+  }
+
+  list(): CredentialSummary[] {
+    return this.entries.map(({ credential }) => ({
+      keyPrefix: credential.keyPrefix,
+      clientId: credential.clientId,
+      username: credential.user.username,
+      role: credential.user.role,
+    }));
+  }
+}
+
+// --- File-Backed Store ---
+// A JSON file of hashed keys, e.g. written by `pnpm add-api-key`. Read once;
+// restart the server to pick up new or revoked keys
+export function readCredentialFile(file: string): CredentialFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Can't read credentials file ${file}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const result = CredentialFileSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Invalid credentials file ${file}: ${issues}`,
+    );
+  }
+  return result.data;
+}
+
+export class FileCredentialStore extends MemoryCredentialStore {
+  readonly kind = "file";
+
+  constructor(file: string) {
+    super(readCredentialFile(file).credentials);
+  }
+}
+
+// --- Configuration ---
+// CREDENTIAL_STORE=memory (default, the demo keys) | file
+// CREDENTIALS_PATH=path to the JSON file for the file store (default: data/credentials.json)
+let activeStore: CredentialStore | undefined;
+
+export const credentialsPath = () =>
+  path.resolve(
+    process.cwd(),
+    process.env.CREDENTIALS_PATH || "data/credentials.json",
+  );
+
+function createStore(): CredentialStore {
+  const kind = process.env.CREDENTIAL_STORE || "memory";
+
+  if (kind === "memory") {
+    return new MemoryCredentialStore();
+  }
+
+  if (kind === "file") {
+    return new FileCredentialStore(credentialsPath());
+  }
+
+  throw new ToolError(
+    "CONFIG_ERROR",
+    `Unsupported CREDENTIAL_STORE: ${kind}. Supported stores: memory, file`,
+  );
+}
+
+// Not cached when creation fails, so a later call retries after a config fix
+export function getCredentialStore(): CredentialStore {
+  activeStore ??= createStore();
+  return activeStore;
+}
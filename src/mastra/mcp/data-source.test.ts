@@ -0,0 +1,151 @@
+// Data source parity tests: the same query returns the same rows, page by page,
+// from the in-memory adapter and from SQLite with its predicates pushed down
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import Database from "better-sqlite3";
+import type { DataSource } from "./data-source";
+import { MemoryDataSource } from "./memory-data-source";
+import { parseSelect } from "./sql-parser";
+import { SqliteDataSource } from "./sqlite-data-source";
+import type { Row } from "./sql-engine";
+
+// Values where SQLite's and JavaScript's rules are easy to get wrong: case,
+// non-ASCII and astral text, numeric text, NULLs, dates under numeric affinity
+const ITEMS_SCHEMA = `
+CREATE TABLE items (
+  id INTEGER PRIMARY KEY,
+  label TEXT,
+  code TEXT,
+  amount REAL,
+  day DATE
+);
+`;
+const items = [
+  [1, "apple", "10", 1.5, "2025-01-10"],
+  [2, "Apple", "9", 100, "2025-03-01"],
+  [3, "Éclair", " 7", null, "2025"],
+  [4, "éclair", "abc", 0, null],
+  [5, "\u{1F600}", "", 250.25, "2024-12-31"],
+  [6, "￿", null, -3, "2025-02-30"],
+  [7, null, "10.0", 19, "2025-06-15"],
+];
+
+const itemQueries = [
+  "SELECT id FROM items WHERE id > 0",
+  "SELECT id FROM items WHERE label > 'B'",
+  "SELECT id FROM items WHERE label < '\u{1F600}'",
+  "SELECT id FROM items WHERE label LIKE 'a%'",
+  "SELECT id FROM items WHERE label LIKE 'é%'",
+  "SELECT id FROM items WHERE label NOT LIKE '%CLAIR'",
+  "SELECT id FROM items WHERE label LIKE '_'",
+  "SELECT id FROM items WHERE code > 9",
+  "SELECT id FROM items WHERE code > '9'",
+  "SELECT id FROM items WHERE code = 10",
+  "SELECT id FROM items WHERE amount > '1'",
+  "SELECT id FROM items WHERE amount >= 19 AND amount < 250",
+  "SELECT id FROM items WHERE amount IN (1.5, 100)",
+  "SELECT id FROM items WHERE amount IN (1.5, NULL)",
+  "SELECT id FROM items WHERE amount NOT IN (1.5, NULL)",
+  "SELECT id FROM items WHERE amount NOT BETWEEN 0 AND 100",
+  "SELECT id FROM items WHERE day < '3000'",
+  "SELECT id FROM items WHERE day >= '2025-01-01'",
+  "SELECT id FROM items WHERE day > 2024",
+  "SELECT id FROM items WHERE NOT amount > 10",
+  "SELECT id FROM items WHERE NOT amount",
+  "SELECT id FROM items WHERE label",
+  "SELECT id FROM items WHERE label IS NULL OR amount IS NOT NULL",
+  "SELECT id FROM items WHERE label = 'apple' OR amount > 10",
+  "SELECT id FROM items WHERE amount * 2 > 10",
+  "SELECT id, label FROM items WHERE id > 1 LIMIT 3 OFFSET 1",
+];
+
+const demoQueries = [
+  "SELECT * FROM orders WHERE total > 50",
+  "SELECT id FROM users WHERE name LIKE 'A%' OR city = 'Toronto'",
+  "SELECT id FROM orders WHERE created BETWEEN '2025-05-01' AND '2025-05-31'",
+  "SELECT u.name, o.total FROM users u JOIN orders o ON o.user_id = u.id",
+];
+
+// Every page of a query at a given page size, as the tools read them
+async function pages(source: DataSource, sql: string, maxRows: number) {
+  const statement = parseSelect(sql);
+  const result: { rows: Row[]; hasMore: boolean }[] = [];
+  for (let skipRows = 0; ; skipRows += maxRows) {
+    const { rows, hasMore } = await source.query(statement, {
+      maxRows,
+      skipRows,
+    });
+    result.push({ rows, hasMore });
+    if (!hasMore) return result;
+  }
+}
+
+async function assertParity(
+  memory: DataSource,
+  sqlite: DataSource,
+  sql: string,
+) {
+  const expected = await memory.query(parseSelect(sql));
+  const actual = await sqlite.query(parseSelect(sql));
+  assert.deepEqual(actual.rows, expected.rows, sql);
+  for (const maxRows of [1, 2]) {
+    assert.deepEqual(
+      await pages(sqlite, sql, maxRows),
+      await pages(memory, sql, maxRows),
+      `${sql} (${maxRows} per page)`,
+    );
+  }
+}
+
+describe("memory and SQLite parity", () => {
+  let dir: string;
+  let sqliteItems: DataSource;
+  let memoryItems: DataSource;
+  let sqliteDemo: DataSource;
+  const memoryDemo = new MemoryDataSource();
+
+  before(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "data-source-test-"));
+    const file = path.join(dir, "items.db");
+    const db = new Database(file);
+    db.exec(ITEMS_SCHEMA);
+    const insert = db.prepare("INSERT INTO items VALUES (?, ?, ?, ?, ?)");
+    for (const item of items) insert.run(...item);
+    db.close();
+
+    sqliteItems = await SqliteDataSource.open(file);
+    // The same rows as SQLite stored them, e.g. day "2025" became a number
+    const info = await sqliteItems.describeTable("items");
+    memoryItems = new MemoryDataSource({
+      items: {
+        columns: info.columns,
+        rows: await sqliteItems.readTable("items"),
+      },
+    });
+    sqliteDemo = await SqliteDataSource.open(path.join(dir, "demo.db"));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  for (const sql of itemQueries) {
+    it(sql, () => assertParity(memoryItems, sqliteItems, sql));
+  }
+
+  for (const sql of demoQueries) {
+    it(`demo data: ${sql}`, () => assertParity(memoryDemo, sqliteDemo, sql));
+  }
+
+  it("counts the same rows under a row filter", async () => {
+    const { where } = parseSelect(
+      "SELECT id FROM items WHERE code > 9 OR label LIKE 'é%'",
+    );
+    assert.equal(
+      await sqliteItems.countRows("items", where),
+      await memoryItems.countRows("items", where),
+    );
+  });
+});
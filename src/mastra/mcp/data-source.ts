@@ -0,0 +1,214 @@
+// Data Source Layer
+// Tools and resources read tables through this interface so the in-memory demo
+// data can be swapped for a real database via configuration
+
+import {
+  containsAggregate,
+  Expr,
+  mapExpr,
+  referencedTables,
+  SelectStatement,
+  SqlError,
+} from "./sql-parser";
+import {
+  Catalog,
+  executeSelect,
+  ExecuteOptions,
+  filterTableRows,
+  QueryResult,
+  Row,
+} from "./sql-engine";
+import { ToolError } from "./errors";
+
+// --- Metadata Types ---
+export type ColumnType = "integer" | "real" | "text" | "date";
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  primaryKey: boolean;
+  references?: { table: string; column: string };
+}
+
+export interface TableInfo {
+  name: string;
+  columns: ColumnInfo[];
+  rowCount: number;
+}
+
+// --- Data Source Interface ---
+// Work pushed down to the adapter while reading one table. Adapters must apply
+// `where` exactly before `limit`: a backend may evaluate only the parts of
+// `where` it compares the way the engine does, and may only apply `limit` itself
+// when nothing is left for the engine to reject afterwards
+export interface ReadOptions {
+  // Predicate over the table's own columns (qualified by the table name or unqualified)
+  where?: Expr;
+  limit?: number;
+}
+
+export interface DataSource {
+  // Adapter name, e.g. "memory" or "sqlite"
+  readonly kind: string;
+  listTables(): Promise<string[]>;
+  describeTable(table: string): Promise<TableInfo>;
+  readTable<T extends Row = Row>(
+    table: string,
+    options?: ReadOptions,
+  ): Promise<T[]>;
+  // Rows matching `where`, e.g. the rows a caller's row filter leaves visible
+  countRows(table: string, where?: Expr): Promise<number>;
+  query(
+    statement: SelectStatement,
+    options?: ExecuteOptions,
+  ): Promise<QueryResult>;
+}
+
+export async function assertTablesExist(
+  source: DataSource,
+  tables: string[],
+): Promise<void> {
+  const available = await source.listTables();
+  const unknown = tables.find((t) => !available.includes(t));
+  if (unknown) {
+    throw new SqlError(
+      `Unknown table "${unknown}". Available tables: ${available.join(", ")}`,
+    );
+  }
+}
+
+// Shared query path: adapters supply rows and metadata, evaluation always runs
+// through the same engine so guardrails behave identically on every backend.
+// Row filters are pushed down to the adapter, and so are the WHERE clause and
+// row cap of single-table queries whose result rows map one-to-one onto table rows
+export async function executeOnDataSource(
+  source: DataSource,
+  statement: SelectStatement,
+  options: ExecuteOptions = {},
+): Promise<QueryResult> {
+  const tables = referencedTables(statement);
+  await assertTablesExist(source, tables);
+
+  const catalog: Catalog = {};
+  for (const table of tables) {
+    const info = await source.describeTable(table);
+    catalog[table] = { columns: info.columns.map((c) => c.name), rows: [] };
+  }
+  // Validate against the empty catalog first so bad columns fail with the
+  // engine's errors rather than the backend's
+  executeSelect(statement, catalog, options);
+
+  const pushdown = statementPushdown(statement, options);
+  for (const table of tables) {
+    catalog[table].rows = await source.readTable(table, {
+      where: conjoin(options.rowFilters?.[table], pushdown.where),
+      limit: pushdown.limit,
+    });
+  }
+  // Rows arrive already filtered; the WHERE is still evaluated by the engine
+  return executeSelect(statement, catalog, { ...options, rowFilters: {} });
+}
+
+const conjoin = (a?: Expr, b?: Expr): Expr | undefined =>
+  a && b ? { kind: "binary", op: "and", left: a, right: b } : (a ?? b);
+
+// Only safe when every table row that passes WHERE becomes exactly one result
+// row in table order: no joins, grouping, aggregates, DISTINCT or ORDER BY
+function statementPushdown(
+  statement: SelectStatement,
+  options: ExecuteOptions,
+): ReadOptions {
+  const oneToOne =
+    statement.joins.length === 0 &&
+    statement.groupBy.length === 0 &&
+    !statement.having &&
+    !statement.distinct &&
+    statement.orderBy.length === 0 &&
+    !statement.columns.some(
+      (c) => c.kind === "expr" && containsAggregate(c.expr),
+    );
+  if (!oneToOne) return {};
+
+  const table = statement.from.name;
+  const where =
+    statement.where &&
+    mapExpr(statement.where, (node) =>
+      node.kind === "column" ? { ...node, table } : node,
+    );
+  if (options.maxRows === undefined) return { where };
+
+  // One row past the page, so the engine can still tell whether more remain
+  const start = statement.offset ?? 0;
+  const needed = start + (options.skipRows ?? 0) + options.maxRows + 1;
+  return {
+    where,
+    limit:
+      statement.limit !== undefined
+        ? Math.min(needed, start + statement.limit)
+        : needed,
+  };
+}
+
+// Read a whole table, keeping only rows that pass a row-level security filter
+export function readFilteredTable<T extends Row = Row>(
+  source: DataSource,
+  table: string,
+  filter?: Expr,
+): Promise<T[]> {
+  return source.readTable<T>(table, { where: filter });
+}
+
+// For adapters: apply ReadOptions to rows the backend couldn't filter itself
+export function applyReadOptions(
+  table: string,
+  columns: string[],
+  rows: Row[],
+  { where, limit }: ReadOptions = {},
+): Row[] {
+  const kept = where ? filterTableRows(table, { columns, rows }, where) : rows;
+  return limit !== undefined ? kept.slice(0, limit) : kept;
+}
+
+// --- Configuration ---
+// DATA_SOURCE=memory (default) | sqlite
+// SQLITE_PATH=path to the database file (default: data/analytics.db)
+let activeSource: Promise<DataSource> | undefined;
+
+async function createDataSource(): Promise<DataSource> {
+  const kind = process.env.DATA_SOURCE || "memory";
+
+  if (kind === "memory") {
+    const { MemoryDataSource } = await import("./memory-data-source");
+    return new MemoryDataSource();
+  }
+
+  if (kind === "sqlite") {
+    const { SqliteDataSource } = await import("./sqlite-data-source");
+    return SqliteDataSource.open(
+      process.env.SQLITE_PATH || "data/analytics.db",
+    );
+  }
+
+  throw new ToolError(
+    "CONFIG_ERROR",
+    `Unsupported DATA_SOURCE: ${kind}. Supported data sources: memory, sqlite`,
+  );
+}
+
+export function getDataSource(): Promise<DataSource> {
+  if (!activeSource) {
+    activeSource = createDataSource().catch((error) => {
+      // Allow a later call to retry after a configuration fix
+      activeSource = undefined;
+      if (error instanceof ToolError) throw error;
+      // e.g. a database file that can't be opened right now
+      throw new ToolError(
+        "UPSTREAM_UNAVAILABLE",
+        `Data source unavailable: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error },
+      );
+    });
+  }
+  return activeSource;
+}
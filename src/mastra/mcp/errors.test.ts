@@ -0,0 +1,101 @@
+// Tool error tests: a ToolError thrown by a tool reaches the MCP client as an
+// isError tools/call result carrying its code and details
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { MCPServer } from "@mastra/mcp";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { installToolErrorResults, ToolErrorBody } from "./errors";
+import { explainSqlTool, runSqlTool } from "../tools";
+
+process.env.AUDIT_LOG_PATH = path.join(tmpdir(), "errors-test-audit.jsonl");
+// Tools called without HTTP credentials run as this key (read:users only)
+process.env.DEMO_API_KEY = "api_key_readonly_789";
+
+const server = new MCPServer({
+  name: "errors-test",
+  version: "1.0.0",
+  tools: { run_sql: runSqlTool, explain_sql: explainSqlTool },
+});
+installToolErrorResults(server);
+
+async function connect(instance: Server): Promise<Client> {
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await instance.connect(serverTransport);
+  const client = new Client({ name: "errors-test-client", version: "1.0.0" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function callTool(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>,
+) {
+  const result = await client.callTool({ name, arguments: args });
+  const [content] = result.content as { type: string; text: string }[];
+  return { isError: result.isError, body: JSON.parse(content.text) };
+}
+
+describe("tool error results", () => {
+  let client: Client;
+  let sessionClient: Client;
+
+  before(async () => {
+    client = await connect(server.getServer());
+    // Each HTTP session gets its own SDK server, created like this
+    const session = (
+      server as unknown as { createServerInstance: () => Server }
+    ).createServerInstance();
+    sessionClient = await connect(session);
+  });
+
+  after(async () => {
+    await client.close();
+    await sessionClient.close();
+  });
+
+  it("returns a missing permission as FORBIDDEN", async () => {
+    const { isError, body } = await callTool(client, "run_sql", {
+      sql: "SELECT id FROM orders",
+    });
+    assert.equal(isError, true);
+    assert.deepEqual(body.error as ToolErrorBody, {
+      code: "FORBIDDEN",
+      message: "Insufficient scope. Required: read:orders",
+      retryable: false,
+      details: { requiredScopes: ["read:orders"] },
+    });
+  });
+
+  it("returns a rejected query as INVALID_QUERY with its position", async () => {
+    const { isError, body } = await callTool(client, "explain_sql", {
+      sql: "SELECT id FROM users WHERE id = 1 #",
+    });
+    assert.equal(isError, true);
+    assert.equal(body.error.code, "INVALID_QUERY");
+    assert.deepEqual(body.error.details, { position: 34 });
+  });
+
+  it("returns successful calls as results", async () => {
+    const { isError, body } = await callTool(client, "run_sql", {
+      sql: "SELECT id FROM users ORDER BY id LIMIT 1",
+    });
+    assert.notEqual(isError, true);
+    assert.deepEqual(body.rows, [{ id: 1 }]);
+  });
+
+  it("returns typed errors from per-session servers too", async () => {
+    const { isError, body } = await callTool(sessionClient, "run_sql", {
+      sql: "DROP TABLE users",
+    });
+    assert.equal(isError, true);
+    assert.equal(body.error.code, "INVALID_QUERY");
+    assert.deepEqual(body.error.details, { position: 0 });
+  });
+});
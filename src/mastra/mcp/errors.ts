@@ -0,0 +1,194 @@
+// Tool Errors
+// Typed error codes with retry hints. Tools throw them, MCP clients receive
+// them as isError tool results, and the HTTP layer uses the same envelope
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+import type { MCPServer } from "@mastra/mcp";
+import { SqlError } from "./sql-parser";
+import { RestrictedColumnError } from "./sql-engine";
+import {
+  CircuitOpenError,
+  RetryExhaustedError,
+  TimeoutError,
+} from "./resilience";
+
+export const ErrorCodeSchema = z.enum([
+  "AUTH_REQUIRED", // no or invalid credentials
+  "FORBIDDEN", // authenticated, but missing a permission or role
+  "INVALID_QUERY", // SQL that doesn't parse or isn't allowed
+  "INVALID_ARGUMENT", // e.g. a bad cursor, unknown policy or segment
+  "NOT_FOUND", // the account or resource doesn't exist or isn't visible
+  "UPSTREAM_UNAVAILABLE", // a data source or external system failed
+  "LIMIT_EXCEEDED", // the request is larger than a tool allows
+  "CONFIG_ERROR", // server configuration is invalid
+  "INTERNAL",
+]);
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+
+export const ToolErrorSchema = z.object({
+  code: ErrorCodeSchema,
+  message: z.string(),
+  retryable: z.boolean(), // true if the same request may succeed later
+  retryAfterMs: z.number().int().nonnegative().optional(),
+  details: z.record(z.any()).optional(),
+});
+export type ToolErrorBody = z.infer<typeof ToolErrorSchema>;
+
+export interface ToolErrorOptions {
+  retryable?: boolean; // defaults by code
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+const RETRYABLE_CODES: ErrorCode[] = ["UPSTREAM_UNAVAILABLE"];
+
+export class ToolError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly details?: Record<string, unknown>;
+
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    options: ToolErrorOptions = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ToolError";
+    this.retryable = options.retryable ?? RETRYABLE_CODES.includes(code);
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+
+  toJSON(): ToolErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: this.retryable,
+      ...(this.retryAfterMs !== undefined
+        ? { retryAfterMs: this.retryAfterMs }
+        : {}),
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+// Classify anything a tool threw; errors without a known type are INTERNAL
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof RestrictedColumnError) {
+    return new ToolError("FORBIDDEN", message, {
+      cause: error,
+      details: { column: error.column, clause: error.clause },
+    });
+  }
+  if (error instanceof SqlError) {
+    return new ToolError("INVALID_QUERY", message, {
+      cause: error,
+      ...(error.position !== undefined
+        ? { details: { position: error.position } }
+        : {}),
+    });
+  }
+  if (error instanceof CircuitOpenError) {
+    return new ToolError("UPSTREAM_UNAVAILABLE", message, {
+      cause: error,
+      retryAfterMs: error.retryInMs,
+    });
+  }
+  if (error instanceof TimeoutError || error instanceof RetryExhaustedError) {
+    return new ToolError("UPSTREAM_UNAVAILABLE", message, { cause: error });
+  }
+  return new ToolError("INTERNAL", message, { cause: error });
+}
+
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  AUTH_REQUIRED: 401,
+  FORBIDDEN: 403,
+  INVALID_QUERY: 400,
+  INVALID_ARGUMENT: 400,
+  NOT_FOUND: 404,
+  UPSTREAM_UNAVAILABLE: 503,
+  LIMIT_EXCEEDED: 422,
+  CONFIG_ERROR: 500,
+  INTERNAL: 500,
+};
+
+export const httpStatusFor = (code: ErrorCode) => HTTP_STATUS[code];
+
+// --- MCP Tool Results ---
+// @mastra/mcp answers tools/call with isError: false for whatever a tool returns
+// (checked against its output schema), and Mastra's tool wrapper turns thrown
+// errors into return values before MCP sees them, so a tool can't produce an
+// error result itself. Instead withAudit reports the typed error for the call
+// in progress, and the tools/call handler installed below answers with it.
+const currentCall = new AsyncLocalStorage<{ error?: ToolError }>();
+
+export function reportToolError(error: ToolError): void {
+  const call = currentCall.getStore();
+  if (call) call.error = error;
+}
+
+export function toolErrorResult(error: ToolError) {
+  return {
+    isError: true,
+    content: [
+      { type: "text", text: JSON.stringify({ error: error.toJSON() }) },
+    ],
+  };
+}
+
+type RequestHandler = (request: unknown, extra: unknown) => Promise<unknown>;
+
+// The handler table and per-session registration are SDK and @mastra/mcp
+// internals. If an upgrade changes them, refuse to start rather than let
+// failed calls reach clients as successes
+const unsupported = (what: string) =>
+  new ToolError(
+    "CONFIG_ERROR",
+    `Can't install typed tool error results: ${what}. Check the @mastra/mcp and @modelcontextprotocol/sdk versions against errors.ts`,
+  );
+
+function requestHandlers(instance: unknown): Map<string, RequestHandler> {
+  // The SDK keeps one handler per JSON-RPC method
+  const handlers = (instance as { _requestHandlers?: unknown })
+    ._requestHandlers;
+  if (!(handlers instanceof Map)) {
+    throw unsupported("the MCP SDK server has no _requestHandlers map");
+  }
+  if (typeof handlers.get("tools/call") !== "function") {
+    throw unsupported("no tools/call handler is registered");
+  }
+  return handlers;
+}
+
+export function installToolErrorResults(server: MCPServer): void {
+  const wrap = (instance: unknown) => {
+    const handlers = requestHandlers(instance);
+    const callTool = handlers.get("tools/call")!;
+    handlers.set("tools/call", (request, extra) => {
+      const call: { error?: ToolError } = {};
+      return currentCall.run(call, async () => {
+        const result = await callTool(request, extra);
+        return call.error ? toolErrorResult(call.error) : result;
+      });
+    });
+  };
+
+  // Each HTTP session gets its own SDK server with freshly registered handlers
+  const internals = server as unknown as {
+    registerHandlersOnServer?: (instance: unknown) => void;
+  };
+  if (typeof internals.registerHandlersOnServer !== "function") {
+    throw unsupported("MCPServer has no registerHandlersOnServer method");
+  }
+  wrap(server.getServer());
+  const register = internals.registerHandlersOnServer.bind(server);
+  internals.registerHandlersOnServer = (instance) => {
+    register(instance);
+    wrap(instance);
+  };
+}
@@ -0,0 +1,92 @@
+// Account Health Snapshots
+// Dated record of scored accounts, so health can be tracked over time.
+// One snapshot per account per day and scoring setup; later runs that day replace earlier ones.
+
+import { z } from "zod";
+import { appendJsonLines, readJsonLines } from "./jsonl-store";
+
+export const HealthSnapshotSchema = z.object({
+  date: z.string(), // YYYY-MM-DD (UTC)
+  takenAt: z.string(), // ISO timestamp
+  accountId: z.string(),
+  healthScore: z.number(),
+  tier: z.enum(["good", "watch", "at_risk"]),
+  // Scores are only comparable under the same policy version and window
+  policy: z.string(),
+  windowDays: z.number(),
+});
+export type HealthSnapshot = z.infer<typeof HealthSnapshotSchema>;
+
+export interface SnapshotFilter {
+  accountIds?: string[];
+  policy?: string;
+  windowDays?: number;
+  sinceDate?: string; // YYYY-MM-DD, inclusive
+  beforeDate?: string; // YYYY-MM-DD, exclusive
+}
+
+// HEALTH_SNAPSHOT_PATH=path to the JSONL file (default: data/health-snapshots.jsonl)
+const snapshotPath = () =>
+  process.env.HEALTH_SNAPSHOT_PATH || "data/health-snapshots.jsonl";
+
+export const snapshotDate = (at: Date = new Date()) =>
+  at.toISOString().slice(0, 10);
+
+export function saveSnapshots(
+  accounts: Pick<HealthSnapshot, "accountId" | "healthScore" | "tier">[],
+  setup: Pick<HealthSnapshot, "policy" | "windowDays">,
+  at: Date = new Date(),
+): Promise<void> {
+  return appendJsonLines(
+    snapshotPath(),
+    accounts.map((a): HealthSnapshot => ({
+      date: snapshotDate(at),
+      takenAt: at.toISOString(),
+      accountId: a.accountId,
+      healthScore: a.healthScore,
+      tier: a.tier,
+      ...setup,
+    })),
+  );
+}
+
+// Matching snapshots, oldest first, keeping only the latest per account, day and setup
+export async function readSnapshots(
+  filter: SnapshotFilter = {},
+): Promise<HealthSnapshot[]> {
+  const latest = new Map<string, HealthSnapshot>();
+  for (const s of await readJsonLines<HealthSnapshot>(snapshotPath())) {
+    if (filter.accountIds && !filter.accountIds.includes(s.accountId)) continue;
+    if (filter.policy && s.policy !== filter.policy) continue;
+    if (filter.windowDays && s.windowDays !== filter.windowDays) continue;
+    if (filter.sinceDate && s.date < filter.sinceDate) continue;
+    if (filter.beforeDate && s.date >= filter.beforeDate) continue;
+
+    const key = `${s.accountId}|${s.date}|${s.policy}|${s.windowDays}`;
+    const existing = latest.get(key);
+    if (!existing || existing.takenAt <= s.takenAt) latest.set(key, s);
+  }
+  return [...latest.values()].sort(
+    (a, b) =>
+      a.takenAt.localeCompare(b.takenAt) ||
+      a.accountId.localeCompare(b.accountId),
+  );
+}
+
+// Each account's most recent snapshot from an earlier day, so reruns today
+// (including later pages) compare against the same baseline
+export async function previousSnapshots(
+  accountIds: string[],
+  setup: Pick<HealthSnapshot, "policy" | "windowDays">,
+  today: string = snapshotDate(),
+): Promise<Map<string, HealthSnapshot>> {
+  const previous = new Map<string, HealthSnapshot>();
+  for (const s of await readSnapshots({
+    accountIds,
+    ...setup,
+    beforeDate: today,
+  })) {
+    previous.set(s.accountId, s); // sorted oldest first, so the latest wins
+  }
+  return previous;
+}
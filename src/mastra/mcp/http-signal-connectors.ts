@@ -0,0 +1,81 @@
+// HTTP Signal Connectors
+// Call external NPS and support services over HTTP (see signal-stub-server.ts
+// for the API they expect)
+
+import type {
+  NpsConnector,
+  SupportConnector,
+  SupportSignals,
+} from "./signal-connectors";
+
+async function getJson<T>(
+  baseUrl: string,
+  pathname: string,
+  query: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const url = new URL(pathname, baseUrl);
+  Object.entries(query).forEach(([k, v]) => url.searchParams.set(k, v));
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal,
+    });
+  } catch (error) {
+    throw new Error(
+      `Signal service unreachable at ${url.origin}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Signal service ${url.pathname} returned ${response.status} ${response.statusText}`,
+    );
+  }
+  return (await response.json()) as T;
+}
+
+export class HttpNpsConnector implements NpsConnector {
+  readonly kind = "http";
+
+  constructor(private readonly baseUrl: string) {}
+
+  async fetchNps(
+    accountIds: string[],
+    signal?: AbortSignal,
+  ): Promise<Record<string, number | null>> {
+    if (accountIds.length === 0) return {};
+    const body = await getJson<{ scores: Record<string, number | null> }>(
+      this.baseUrl,
+      "/v1/nps",
+      { accountIds: accountIds.join(",") },
+      signal,
+    );
+    // Accounts the service doesn't know about have no NPS response
+    return Object.fromEntries(
+      accountIds.map((id) => [id, body.scores[id] ?? null]),
+    );
+  }
+}
+
+export class HttpSupportConnector implements SupportConnector {
+  readonly kind = "http";
+
+  constructor(private readonly baseUrl: string) {}
+
+  async fetchSupportSignals(
+    accountIds: string[],
+    sinceIso: string,
+    signal?: AbortSignal,
+  ): Promise<Record<string, SupportSignals>> {
+    if (accountIds.length === 0) return {};
+    const body = await getJson<{ signals: Record<string, SupportSignals> }>(
+      this.baseUrl,
+      "/v1/support/signals",
+      { accountIds: accountIds.join(","), since: sinceIso },
+      signal,
+    );
+    return body.signals;
+  }
+}
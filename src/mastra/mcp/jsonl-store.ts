@@ -0,0 +1,73 @@
+// JSONL Store
+// Append-only files of one JSON record per line, used for the audit log,
+// health snapshots and the signal cache
+
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+// Appends are chained so concurrent calls never interleave partial lines
+let writeQueue: Promise<void> = Promise.resolve();
+
+export function appendJsonLines(
+  file: string,
+  records: unknown[],
+): Promise<void> {
+  if (records.length === 0) return writeQueue;
+  writeQueue = writeQueue
+    .then(async () => {
+      await mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      const lines = records.map((r) => `${JSON.stringify(r)}\n`).join("");
+      await appendFile(file, lines, "utf8");
+    })
+    .catch((error) => {
+      // Persisting records must never break the tool call itself
+      console.error(`[Store] Failed to write to ${file}: ${error}`);
+    });
+  return writeQueue;
+}
+
+// Replace the whole file, e.g. to compact it; the rename means readers never
+// see a half-written file
+export function replaceJsonLines(
+  file: string,
+  records: unknown[],
+): Promise<void> {
+  writeQueue = writeQueue
+    .then(async () => {
+      await mkdir(path.dirname(path.resolve(file)), { recursive: true });
+      const lines = records.map((r) => `${JSON.stringify(r)}\n`).join("");
+      await writeFile(`${file}.tmp`, lines, "utf8");
+      await rename(`${file}.tmp`, file);
+    })
+    .catch((error) => {
+      console.error(`[Store] Failed to rewrite ${file}: ${error}`);
+    });
+  return writeQueue;
+}
+
+export async function readJsonLines<T>(file: string): Promise<T[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as T];
+      } catch {
+        return []; // Skip a torn line rather than failing the whole read
+      }
+    });
+}
@@ -0,0 +1,212 @@
+// JWT tests: HS256 and RS256 tokens verify only with the configured key, within
+// their validity window and for this server's issuer and audience
+
+import assert from "node:assert/strict";
+import { generateKeyPairSync } from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  authInfoFromClaims,
+  DEFAULT_AUDIENCE,
+  DEFAULT_ISSUER,
+  JwtClaims,
+  JwtConfig,
+  signJwt,
+  SigningKey,
+  verifyJwt,
+} from "./jwt";
+import { ToolError } from "./errors";
+
+const SECRET = "jwt-test-secret";
+const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const otherRsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const hs256: SigningKey = { alg: "HS256", secret: SECRET };
+const rs256: SigningKey = {
+  alg: "RS256",
+  privateKey: rsa.privateKey,
+  kid: "key-1",
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const claims = (overrides: JwtClaims = {}): JwtClaims => ({
+  sub: "analyst-7",
+  iss: DEFAULT_ISSUER,
+  aud: DEFAULT_AUDIENCE,
+  iat: now(),
+  exp: now() + 300,
+  ...overrides,
+});
+
+const rejects = (token: string, config: JwtConfig, reason: string) =>
+  assert.throws(
+    () => verifyJwt(token, config),
+    (error) =>
+      error instanceof ToolError &&
+      error.code === "AUTH_REQUIRED" &&
+      error.message === `Invalid token: ${reason}`,
+  );
+
+describe("JWT verification", () => {
+  let dir: string;
+  let config: JwtConfig;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "jwt-test-"));
+    const jwksPath = path.join(dir, "jwks.json");
+    const jwk = rsa.publicKey.export({ format: "jwk" });
+    writeFileSync(
+      jwksPath,
+      JSON.stringify({ keys: [{ ...jwk, kid: "key-1", use: "sig" }] }),
+    );
+    config = {
+      secret: SECRET,
+      jwksPath,
+      issuer: DEFAULT_ISSUER,
+      audience: DEFAULT_AUDIENCE,
+      clockSkewSeconds: 30,
+    };
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("accepts HS256 and RS256 tokens signed with the configured keys", () => {
+    const expected = claims();
+    assert.deepEqual(verifyJwt(signJwt(expected, hs256), config), expected);
+    assert.deepEqual(verifyJwt(signJwt(expected, rs256), config), expected);
+  });
+
+  it("rejects tokens signed with another key", () => {
+    rejects(
+      signJwt(claims(), { alg: "HS256", secret: "not-the-secret" }),
+      config,
+      "signature verification failed",
+    );
+    rejects(
+      signJwt(claims(), { ...rs256, privateKey: otherRsa.privateKey }),
+      config,
+      "signature verification failed",
+    );
+    rejects(
+      signJwt(claims(), { ...rs256, kid: "key-2" }),
+      config,
+      'no RS256 key matches kid "key-2"',
+    );
+  });
+
+  it("rejects edited claims and unsigned tokens", () => {
+    const [header, , signature] = signJwt(claims(), hs256).split(".");
+    const admin = Buffer.from(
+      JSON.stringify(claims({ role: "admin" })),
+    ).toString("base64url");
+    rejects(
+      `${header}.${admin}.${signature}`,
+      config,
+      "signature verification failed",
+    );
+
+    const none = Buffer.from(JSON.stringify({ alg: "none" })).toString(
+      "base64url",
+    );
+    rejects(`${none}.${admin}.`, config, "unsupported algorithm none");
+  });
+
+  it("only accepts algorithms with a configured key", () => {
+    rejects(
+      signJwt(claims(), hs256),
+      { ...config, secret: undefined },
+      "HS256 tokens are not accepted",
+    );
+    rejects(
+      signJwt(claims(), rs256),
+      { ...config, jwksPath: undefined },
+      "RS256 tokens are not accepted",
+    );
+  });
+
+  it("rejects expired tokens, allowing for clock skew", () => {
+    const expired = claims({ exp: now() - 60 });
+    assert.throws(
+      () => verifyJwt(signJwt(expired, hs256), config),
+      /^ToolError: Invalid token: expired at /,
+    );
+    assert.throws(
+      () => verifyJwt(signJwt(expired, rs256), config),
+      /^ToolError: Invalid token: expired at /,
+    );
+    const justExpired = claims({ exp: now() - 10 });
+    assert.deepEqual(
+      verifyJwt(signJwt(justExpired, hs256), config),
+      justExpired,
+    );
+    rejects(
+      signJwt(claims({ exp: undefined }), hs256),
+      config,
+      "missing exp claim",
+    );
+    assert.throws(
+      () => verifyJwt(signJwt(claims({ nbf: now() + 120 }), hs256), config),
+      /^ToolError: Invalid token: not valid before /,
+    );
+  });
+
+  it("requires this server's audience and issuer", () => {
+    for (const key of [hs256, rs256]) {
+      rejects(
+        signJwt(claims({ aud: "another-api" }), key),
+        config,
+        `audience must include "${DEFAULT_AUDIENCE}"`,
+      );
+      rejects(
+        signJwt(claims({ aud: undefined }), key),
+        config,
+        `audience must include "${DEFAULT_AUDIENCE}"`,
+      );
+      rejects(
+        signJwt(claims({ iss: "someone-else" }), key),
+        config,
+        `issuer must be "${DEFAULT_ISSUER}"`,
+      );
+    }
+    const shared = claims({ aud: ["another-api", DEFAULT_AUDIENCE] });
+    assert.deepEqual(verifyJwt(signJwt(shared, hs256), config), shared);
+  });
+});
+
+describe("JWT claims", () => {
+  it("maps claims to the caller, defaulting to the readonly role", () => {
+    const authInfo = authInfoFromClaims(
+      "token",
+      claims({ preferred_username: "ava", azp: "dashboard" }),
+    );
+    assert.equal(authInfo.clientId, "dashboard");
+    assert.deepEqual(authInfo.extra, {
+      userId: "analyst-7",
+      username: "ava",
+      role: "readonly",
+      permissions: ["read:users"],
+    });
+  });
+
+  it("takes permissions from the scope claim", () => {
+    const authInfo = authInfoFromClaims(
+      "token",
+      claims({ role: "user", scope: "read:users read:orders" }),
+    );
+    assert.deepEqual(authInfo.scopes, ["read:users", "read:orders"]);
+  });
+
+  it("rejects tokens without a subject or with an unknown role", () => {
+    assert.throws(
+      () => authInfoFromClaims("token", claims({ sub: undefined })),
+      /Invalid token: missing sub claim/,
+    );
+    assert.throws(
+      () => authInfoFromClaims("token", claims({ role: "owner" })),
+      /Invalid token: unknown role "owner"/,
+    );
+  });
+});
@@ -0,0 +1,264 @@
+// JWT Verification
+// HS256 tokens signed with a shared secret and RS256 tokens checked against a
+// local JWKS file, with exp/nbf/iss/aud checks and claims mapped to DemoUserInfo
+
+import {
+  createHmac,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  sign,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { ROLE_PERMISSIONS } from "./credential-store";
+import { ToolError } from "./errors";
+import type { AuthInfo, DemoUserInfo } from "./utils";
+
+export type JwtAlgorithm = "HS256" | "RS256";
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number; // seconds since the epoch
+  nbf?: number;
+  iat?: number;
+  preferred_username?: string;
+  name?: string;
+  role?: string;
+  scope?: string; // space-separated, as in OAuth access tokens
+  scp?: string[];
+  client_id?: string;
+  azp?: string;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  typ?: string;
+  kid?: string;
+}
+
+// --- Configuration ---
+// JWT_SECRET=shared secret for HS256 tokens
+// JWT_JWKS_PATH=local JWKS file ({ "keys": [...] }) with the public keys for RS256 tokens
+// JWT_ISSUER=required iss claim (default: customer-analytics-demo); set it empty to skip the check
+// JWT_AUDIENCE=required aud claim (default: customer-analytics-mcp); set it empty to skip the check
+// JWT_CLOCK_SKEW_SECONDS=tolerance for exp and nbf (default: 30)
+export interface JwtConfig {
+  secret?: string;
+  jwksPath?: string;
+  issuer?: string;
+  audience?: string;
+  clockSkewSeconds: number;
+}
+
+export const DEFAULT_ISSUER = "customer-analytics-demo";
+export const DEFAULT_AUDIENCE = "customer-analytics-mcp";
+
+export function jwtConfig(): JwtConfig {
+  return {
+    secret: process.env.JWT_SECRET || undefined,
+    jwksPath: process.env.JWT_JWKS_PATH || undefined,
+    issuer: process.env.JWT_ISSUER ?? DEFAULT_ISSUER,
+    audience: process.env.JWT_AUDIENCE ?? DEFAULT_AUDIENCE,
+    clockSkewSeconds: Number(process.env.JWT_CLOCK_SKEW_SECONDS || 30),
+  };
+}
+
+// Parsed once per path; restart the server to pick up rotated keys
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+function loadJwks(file: string): JsonWebKey[] {
+  const resolved = path.resolve(process.cwd(), file);
+  let keys = jwksCache.get(resolved);
+  if (!keys) {
+    try {
+      keys = (
+        JSON.parse(readFileSync(resolved, "utf8")) as { keys: JsonWebKey[] }
+      ).keys;
+    } catch (error) {
+      throw new ToolError(
+        "CONFIG_ERROR",
+        `Can't read JWKS file ${resolved}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (!Array.isArray(keys)) {
+      throw new ToolError(
+        "CONFIG_ERROR",
+        `JWKS file ${resolved} has no "keys" array`,
+      );
+    }
+    jwksCache.set(resolved, keys);
+  }
+  return keys;
+}
+
+// --- Encoding ---
+const invalid = (reason: string) =>
+  new ToolError("AUTH_REQUIRED", `Invalid token: ${reason}`);
+
+const encodeSegment = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8")) as T;
+  } catch {
+    throw invalid(`malformed ${name}`);
+  }
+}
+
+// --- Signing (test tokens) ---
+export type SigningKey =
+  | { alg: "HS256"; secret: string }
+  | { alg: "RS256"; privateKey: KeyObject | string; kid?: string };
+
+export function signJwt(claims: JwtClaims, key: SigningKey): string {
+  const header: JwtHeader = {
+    alg: key.alg,
+    typ: "JWT",
+    ...(key.alg === "RS256" && key.kid ? { kid: key.kid } : {}),
+  };
+  const data = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+  const signature =
+    key.alg === "HS256"
+      ? createHmac("sha256", key.secret).update(data).digest()
+      : sign("RSA-SHA256", Buffer.from(data), key.privateKey);
+  return `${data}.${signature.toString("base64url")}`;
+}
+
+// --- Verification ---
+function verifySignature(
+  header: JwtHeader,
+  data: string,
+  signature: Buffer,
+  config: JwtConfig,
+): boolean {
+  // The algorithm must match a configured key type; "none" and others are rejected
+  if (header.alg === "HS256") {
+    if (!config.secret) throw invalid("HS256 tokens are not accepted");
+    const expected = createHmac("sha256", config.secret).update(data).digest();
+    return (
+      expected.length === signature.length &&
+      timingSafeEqual(expected, signature)
+    );
+  }
+  if (header.alg === "RS256") {
+    if (!config.jwksPath) throw invalid("RS256 tokens are not accepted");
+    const candidates = loadJwks(config.jwksPath).filter(
+      (k) =>
+        k.kty === "RSA" &&
+        (!k.use || k.use === "sig") &&
+        (!header.kid || k.kid === header.kid),
+    );
+    if (candidates.length === 0) {
+      throw invalid(`no RS256 key matches kid "${header.kid ?? ""}"`);
+    }
+    return candidates.some((jwk) =>
+      verify(
+        "RSA-SHA256",
+        Buffer.from(data),
+        createPublicKey({ key: jwk, format: "jwk" }),
+        signature,
+      ),
+    );
+  }
+  throw invalid(`unsupported algorithm ${header.alg ?? "(none)"}`);
+}
+
+export function verifyJwt(
+  token: string,
+  config: JwtConfig = jwtConfig(),
+): JwtClaims {
+  if (!config.secret && !config.jwksPath) {
+    throw new ToolError(
+      "AUTH_REQUIRED",
+      "Bearer tokens are not enabled on this server. Set JWT_SECRET or JWT_JWKS_PATH.",
+    );
+  }
+
+  const parts = token.split(".");
+  if (parts.length !== 3) throw invalid("expected three segments");
+  const [headerPart, payloadPart, signaturePart] = parts;
+  const header = decodeSegment<JwtHeader>(headerPart, "header");
+  const claims = decodeSegment<JwtClaims>(payloadPart, "payload");
+
+  if (
+    !verifySignature(
+      header,
+      `${headerPart}.${payloadPart}`,
+      Buffer.from(signaturePart, "base64url"),
+      config,
+    )
+  ) {
+    throw invalid("signature verification failed");
+  }
+
+  // Time claims; every token must expire
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number") throw invalid("missing exp claim");
+  if (now - config.clockSkewSeconds >= claims.exp) {
+    throw invalid(`expired at ${new Date(claims.exp * 1000).toISOString()}`);
+  }
+  if (
+    typeof claims.nbf === "number" &&
+    now + config.clockSkewSeconds < claims.nbf
+  ) {
+    throw invalid(
+      `not valid before ${new Date(claims.nbf * 1000).toISOString()}`,
+    );
+  }
+
+  if (config.issuer && claims.iss !== config.issuer) {
+    throw invalid(`issuer must be "${config.issuer}"`);
+  }
+  if (config.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(config.audience)) {
+      throw invalid(`audience must include "${config.audience}"`);
+    }
+  }
+  return claims;
+}
+
+// --- Claims Mapping ---
+const isRole = (role: unknown): role is DemoUserInfo["role"] =>
+  typeof role === "string" && role in ROLE_PERMISSIONS;
+
+export function authInfoFromClaims(
+  token: string,
+  claims: JwtClaims,
+): NonNullable<AuthInfo> {
+  if (!claims.sub) throw invalid("missing sub claim");
+  // Tokens without a role get the least privileged one
+  const role = claims.role ?? "readonly";
+  if (!isRole(role)) {
+    throw invalid(
+      `unknown role "${role}". Expected one of: ${Object.keys(ROLE_PERMISSIONS).join(", ")}`,
+    );
+  }
+  const scopes =
+    typeof claims.scope === "string"
+      ? claims.scope.split(" ").filter(Boolean)
+      : Array.isArray(claims.scp)
+        ? claims.scp
+        : ROLE_PERMISSIONS[role];
+
+  const user: DemoUserInfo = {
+    userId: claims.sub,
+    username: claims.preferred_username ?? claims.name ?? claims.sub,
+    role,
+    permissions: scopes,
+  };
+  return {
+    token,
+    clientId: claims.client_id ?? claims.azp ?? "jwt-client",
+    scopes,
+    expiresAt: claims.exp,
+    extra: { ...user },
+  };
+}
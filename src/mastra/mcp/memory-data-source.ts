@@ -0,0 +1,92 @@
+// In-memory Data Source
+// Serves the demo tables from mock-data.ts
+
+import { orders, users } from "./mock-data";
+import {
+  applyReadOptions,
+  assertTablesExist,
+  ColumnInfo,
+  DataSource,
+  executeOnDataSource,
+  ReadOptions,
+  TableInfo,
+} from "./data-source";
+import { Expr, SelectStatement } from "./sql-parser";
+import { ExecuteOptions, QueryResult, Row } from "./sql-engine";
+
+interface MemoryTable {
+  columns: ColumnInfo[];
+  rows: Row[];
+}
+
+const column = (
+  name: string,
+  type: ColumnInfo["type"],
+  extra: Partial<ColumnInfo> = {},
+): ColumnInfo => ({ name, type, nullable: false, primaryKey: false, ...extra });
+
+const defaultTables: Record<string, MemoryTable> = {
+  users: {
+    columns: [
+      column("id", "integer", { primaryKey: true }),
+      column("name", "text"),
+      column("city", "text"),
+      column("joined", "date"),
+    ],
+    rows: users,
+  },
+  orders: {
+    columns: [
+      column("id", "integer", { primaryKey: true }),
+      column("user_id", "integer", {
+        references: { table: "users", column: "id" },
+      }),
+      column("total", "real"),
+      column("created", "date"),
+    ],
+    rows: orders,
+  },
+};
+
+export class MemoryDataSource implements DataSource {
+  readonly kind = "memory";
+
+  constructor(
+    private readonly tables: Record<string, MemoryTable> = defaultTables,
+  ) {}
+
+  async listTables(): Promise<string[]> {
+    return Object.keys(this.tables);
+  }
+
+  async describeTable(table: string): Promise<TableInfo> {
+    await assertTablesExist(this, [table]);
+    const { columns, rows } = this.tables[table];
+    return { name: table, columns, rowCount: rows.length };
+  }
+
+  async readTable<T extends Row = Row>(
+    table: string,
+    options?: ReadOptions,
+  ): Promise<T[]> {
+    await assertTablesExist(this, [table]);
+    const { columns, rows } = this.tables[table];
+    return applyReadOptions(
+      table,
+      columns.map((c) => c.name),
+      rows,
+      options,
+    ) as T[];
+  }
+
+  async countRows(table: string, where?: Expr): Promise<number> {
+    return (await this.readTable(table, { where })).length;
+  }
+
+  query(
+    statement: SelectStatement,
+    options?: ExecuteOptions,
+  ): Promise<QueryResult> {
+    return executeOnDataSource(this, statement, options);
+  }
+}
@@ -0,0 +1,138 @@
+// Test Token CLI
+// Mints JWTs the HTTP server accepts, and RS256 key pairs for JWT_JWKS_PATH
+//
+//   pnpm mint-token --role user                      HS256, signed with JWT_SECRET
+//   pnpm mint-token --role admin --expires-in 15m
+//   pnpm mint-token --generate-keys data/jwt         writes private-key.pem and jwks.json
+//   pnpm mint-token --alg RS256 --key data/jwt/private-key.pem --kid demo-1
+//
+// The token is the only thing written to stdout, so it can be captured with
+// TOKEN=$(pnpm -s mint-token --role user)
+
+import { createPrivateKey, generateKeyPairSync } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_AUDIENCE,
+  DEFAULT_ISSUER,
+  JwtAlgorithm,
+  JwtClaims,
+  signJwt,
+  SigningKey,
+} from "./jwt.js";
+import { ROLE_PERMISSIONS } from "./credential-store.js";
+
+const { values } = parseArgs({
+  options: {
+    role: { type: "string", default: "user" },
+    sub: { type: "string" },
+    username: { type: "string" },
+    scope: { type: "string" }, // space-separated; defaults to the role's permissions
+    "client-id": { type: "string", default: "mint-token-cli" },
+    "expires-in": { type: "string", default: "1h" },
+    "not-before": { type: "string" }, // delay before the token becomes valid
+    alg: { type: "string", default: "HS256" },
+    key: { type: "string" }, // PEM private key for RS256
+    kid: { type: "string", default: "demo-1" },
+    issuer: { type: "string" },
+    audience: { type: "string" },
+    "generate-keys": { type: "string" }, // output directory
+  },
+});
+
+// "90", "90s", "15m", "1h" or "7d" -> seconds
+function parseDuration(text: string): number {
+  const match = /^(\d+)([smhd]?)$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid duration "${text}". Use e.g. 90, 15m, 1h or 7d`);
+  }
+  const unit = { "": 1, s: 1, m: 60, h: 3600, d: 86400 }[match[2]]!;
+  return Number(match[1]) * unit;
+}
+
+function generateKeys(dir: string, kid: string) {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+  });
+  mkdirSync(dir, { recursive: true });
+  const privatePath = path.join(dir, "private-key.pem");
+  const jwksPath = path.join(dir, "jwks.json");
+  writeFileSync(
+    privatePath,
+    privateKey.export({ type: "pkcs8", format: "pem" }),
+    { mode: 0o600 },
+  );
+  const jwk = {
+    ...publicKey.export({ format: "jwk" }),
+    kid,
+    use: "sig",
+    alg: "RS256",
+  };
+  writeFileSync(jwksPath, `${JSON.stringify({ keys: [jwk] }, null, 2)}\n`);
+  console.error(`Wrote ${privatePath} and ${jwksPath} (kid: ${kid})`);
+  console.error(
+    `Start the server with JWT_JWKS_PATH=${jwksPath}, then mint with --alg RS256 --key ${privatePath}`,
+  );
+}
+
+function signingKey(alg: JwtAlgorithm): SigningKey {
+  if (alg === "HS256") {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new Error("Set JWT_SECRET to mint HS256 tokens");
+    return { alg, secret };
+  }
+  if (!values.key) throw new Error("RS256 needs --key <private key PEM>");
+  return {
+    alg,
+    privateKey: createPrivateKey(readFileSync(values.key, "utf8")),
+    kid: values.kid,
+  };
+}
+
+function main() {
+  if (values["generate-keys"]) {
+    generateKeys(values["generate-keys"], values.kid!);
+    return;
+  }
+
+  const role = values.role as keyof typeof ROLE_PERMISSIONS;
+  if (!(role in ROLE_PERMISSIONS)) {
+    throw new Error(
+      `Unknown role "${role}". Use one of: ${Object.keys(ROLE_PERMISSIONS).join(", ")}`,
+    );
+  }
+  const alg = values.alg as JwtAlgorithm;
+  if (alg !== "HS256" && alg !== "RS256") {
+    throw new Error(`Unsupported --alg ${alg}. Use HS256 or RS256`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const sub = values.sub ?? `${role}-jwt`;
+  const claims: JwtClaims = {
+    sub,
+    preferred_username: values.username ?? sub,
+    role,
+    scope: values.scope ?? ROLE_PERMISSIONS[role].join(" "),
+    client_id: values["client-id"],
+    iss: values.issuer ?? process.env.JWT_ISSUER ?? DEFAULT_ISSUER,
+    aud: values.audience ?? process.env.JWT_AUDIENCE ?? DEFAULT_AUDIENCE,
+    iat: now,
+    exp: now + parseDuration(values["expires-in"]!),
+    ...(values["not-before"]
+      ? { nbf: now + parseDuration(values["not-before"]) }
+      : {}),
+  };
+
+  console.log(signJwt(claims, signingKey(alg)));
+  console.error(
+    `${alg} token for ${claims.preferred_username} (${role}), expires ${new Date(claims.exp! * 1000).toISOString()}`,
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
@@ -0,0 +1,398 @@
+// Mock Authorization Server
+// Local OAuth 2.1 authorization server for exercising the HTTP server's
+// discovery flow offline. Issues HS256 access tokens signed with JWT_SECRET
+//
+//   GET  /.well-known/oauth-authorization-server  -> RFC 8414 metadata
+//   POST /register                                 -> dynamic client registration (RFC 7591)
+//   GET  /authorize?response_type=code&client_id=&redirect_uri=&code_challenge=&code_challenge_method=S256
+//        &scope=&state=&resource=&login_hint=user  -> auto-approved, redirects with ?code=
+//   POST /token  grant_type=authorization_code     -> code + code_verifier (PKCE)
+//   POST /token  grant_type=client_credentials     -> &role=user&scope=..., no login step
+//   GET  /health
+//
+// There is no login page: login_hint (or role) picks the demo user (admin, user
+// or readonly). Run the MCP server with JWT_ISSUER set to this server's URL.
+
+import { createHash, randomBytes } from "node:crypto";
+import http from "http";
+import { URL } from "url";
+import { ROLE_PERMISSIONS } from "./credential-store.js";
+import { DEFAULT_AUDIENCE, JwtClaims, signJwt } from "./jwt.js";
+import type { DemoUserInfo } from "./utils.js";
+
+// --- Server Configuration ---
+const PORT = parseInt(process.env.MOCK_AUTH_PORT || "4020");
+const ISSUER = `http://localhost:${PORT}`;
+const AUDIENCE = process.env.JWT_AUDIENCE ?? DEFAULT_AUDIENCE;
+const TOKEN_TTL_SECONDS = 3600;
+const CODE_TTL_MS = 60_000;
+const SECRET = process.env.JWT_SECRET;
+
+if (!SECRET) {
+  console.error("❌ Set JWT_SECRET (the MCP server must use the same value)");
+  process.exit(1);
+}
+
+type Role = DemoUserInfo["role"];
+
+const demoUsers: Record<Role, { sub: string; username: string }> = {
+  admin: { sub: "admin-1", username: "admin" },
+  user: { sub: "user-1", username: "analyst" },
+  readonly: { sub: "readonly-1", username: "viewer" },
+};
+
+const ALL_SCOPES = [...new Set(Object.values(ROLE_PERMISSIONS).flat())];
+
+interface RegisteredClient {
+  client_id: string;
+  client_name?: string;
+  redirect_uris: string[];
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  role: Role;
+  scopes: string[];
+  resource?: string;
+  expiresAt: number;
+}
+
+const clients = new Map<string, RegisteredClient>();
+const codes = new Map<string, PendingCode>();
+
+// --- Helpers ---
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+// RFC 6749 §5.2 error response
+function sendOAuthError(
+  res: http.ServerResponse,
+  error: string,
+  description: string,
+  status = 400,
+) {
+  sendJson(res, status, { error, error_description: description });
+}
+
+async function readBody(
+  req: http.IncomingMessage,
+): Promise<Record<string, string>> {
+  let data = "";
+  for await (const chunk of req) data += chunk;
+  if (req.headers["content-type"]?.includes("application/json")) {
+    return data ? (JSON.parse(data) as Record<string, string>) : {};
+  }
+  return Object.fromEntries(new URLSearchParams(data));
+}
+
+const isRole = (value: string | undefined): value is Role =>
+  !!value && value in ROLE_PERMISSIONS;
+
+// Requested scopes the role may hold; the role's defaults when none are requested.
+// Admins may request any scope
+function grantScopes(role: Role, requested: string | undefined) {
+  const allowed = role === "admin" ? ALL_SCOPES : ROLE_PERMISSIONS[role];
+  const wanted = requested?.split(" ").filter(Boolean) ?? [];
+  if (wanted.length === 0) return ROLE_PERMISSIONS[role];
+  return wanted.filter((scope) => allowed.includes(scope));
+}
+
+function issueToken(
+  res: http.ServerResponse,
+  grant: { clientId: string; role: Role; scopes: string[]; resource?: string },
+) {
+  const now = Math.floor(Date.now() / 1000);
+  const user = demoUsers[grant.role];
+  const claims: JwtClaims = {
+    sub: user.sub,
+    preferred_username: user.username,
+    role: grant.role,
+    scope: grant.scopes.join(" "),
+    client_id: grant.clientId,
+    iss: ISSUER,
+    // RFC 8707: the resource the client asked for, plus the audience the MCP server checks
+    aud: grant.resource ? [AUDIENCE, grant.resource] : AUDIENCE,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  };
+  console.log(
+    `[Auth] Issued token for ${user.username} (${grant.role}) to ${grant.clientId}: ${claims.scope}`,
+  );
+  sendJson(res, 200, {
+    access_token: signJwt(claims, { alg: "HS256", secret: SECRET! }),
+    token_type: "Bearer",
+    expires_in: TOKEN_TTL_SECONDS,
+    scope: claims.scope,
+  });
+}
+
+// --- Endpoints ---
+function handleRegister(
+  res: http.ServerResponse,
+  body: Record<string, unknown>,
+) {
+  const redirectUris = body.redirect_uris;
+  if (
+    !Array.isArray(redirectUris) ||
+    redirectUris.length === 0 ||
+    !redirectUris.every((uri) => typeof uri === "string")
+  ) {
+    sendOAuthError(
+      res,
+      "invalid_redirect_uri",
+      "redirect_uris must be a non-empty array of URLs",
+    );
+    return;
+  }
+  const client: RegisteredClient = {
+    client_id: `client-${randomBytes(8).toString("hex")}`,
+    client_name:
+      typeof body.client_name === "string" ? body.client_name : undefined,
+    redirect_uris: redirectUris,
+  };
+  clients.set(client.client_id, client);
+  console.log(
+    `[Auth] Registered ${client.client_id} (${client.client_name ?? "unnamed"})`,
+  );
+  sendJson(res, 201, {
+    ...client,
+    client_id_issued_at: Math.floor(Date.now() / 1000),
+    token_endpoint_auth_method: "none",
+    grant_types: ["authorization_code"],
+    response_types: ["code"],
+  });
+}
+
+function handleAuthorize(url: URL, res: http.ServerResponse) {
+  const params = url.searchParams;
+  const clientId = params.get("client_id");
+  const redirectUri = params.get("redirect_uri");
+  if (!clientId || !redirectUri) {
+    sendOAuthError(
+      res,
+      "invalid_request",
+      "client_id and redirect_uri are required",
+    );
+    return;
+  }
+  // Unregistered clients are allowed; registered ones must use a registered redirect URI
+  const client = clients.get(clientId);
+  if (client && !client.redirect_uris.includes(redirectUri)) {
+    sendOAuthError(res, "invalid_request", "redirect_uri is not registered");
+    return;
+  }
+
+  // From here on, errors go back to the client's redirect URI
+  const redirect = new URL(redirectUri);
+  const state = params.get("state");
+  if (state) redirect.searchParams.set("state", state);
+  const fail = (error: string, description: string) => {
+    redirect.searchParams.set("error", error);
+    redirect.searchParams.set("error_description", description);
+    res.writeHead(302, { Location: redirect.toString() });
+    res.end();
+  };
+
+  if (params.get("response_type") !== "code") {
+    fail("unsupported_response_type", "Only response_type=code is supported");
+    return;
+  }
+  const codeChallenge = params.get("code_challenge");
+  if (!codeChallenge || params.get("code_challenge_method") !== "S256") {
+    fail("invalid_request", "PKCE with code_challenge_method=S256 is required");
+    return;
+  }
+  const role = params.get("login_hint") ?? params.get("role") ?? "user";
+  if (!isRole(role)) {
+    fail("access_denied", `Unknown demo user "${role}"`);
+    return;
+  }
+  const scopes = grantScopes(role, params.get("scope") ?? undefined);
+  if (scopes.length === 0) {
+    fail(
+      "invalid_scope",
+      `None of the requested scopes are allowed for ${role}`,
+    );
+    return;
+  }
+
+  const code = randomBytes(16).toString("hex");
+  codes.set(code, {
+    clientId,
+    redirectUri,
+    codeChallenge,
+    role,
+    scopes,
+    resource: params.get("resource") ?? undefined,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  console.log(`[Auth] Approved ${clientId} as ${role}: ${scopes.join(" ")}`);
+  redirect.searchParams.set("code", code);
+  res.writeHead(302, { Location: redirect.toString() });
+  res.end();
+}
+
+function handleToken(res: http.ServerResponse, body: Record<string, string>) {
+  if (body.grant_type === "authorization_code") {
+    const pending = codes.get(body.code);
+    codes.delete(body.code); // single use
+    if (!pending || pending.expiresAt < Date.now()) {
+      sendOAuthError(
+        res,
+        "invalid_grant",
+        "Unknown or expired authorization code",
+      );
+      return;
+    }
+    if (
+      body.client_id !== pending.clientId ||
+      body.redirect_uri !== pending.redirectUri
+    ) {
+      sendOAuthError(
+        res,
+        "invalid_grant",
+        "client_id or redirect_uri doesn't match the authorization request",
+      );
+      return;
+    }
+    const challenge = createHash("sha256")
+      .update(body.code_verifier ?? "")
+      .digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      sendOAuthError(
+        res,
+        "invalid_grant",
+        "code_verifier doesn't match code_challenge",
+      );
+      return;
+    }
+    issueToken(res, {
+      clientId: pending.clientId,
+      role: pending.role,
+      scopes: pending.scopes,
+      resource: body.resource ?? pending.resource,
+    });
+    return;
+  }
+
+  if (body.grant_type === "client_credentials") {
+    const role = body.role ?? "user";
+    if (!isRole(role)) {
+      sendOAuthError(res, "invalid_request", `Unknown role "${role}"`);
+      return;
+    }
+    const scopes = grantScopes(role, body.scope);
+    if (scopes.length === 0) {
+      sendOAuthError(
+        res,
+        "invalid_scope",
+        `None of the requested scopes are allowed for ${role}`,
+      );
+      return;
+    }
+    issueToken(res, {
+      clientId: body.client_id ?? "mock-client",
+      role,
+      scopes,
+      resource: body.resource,
+    });
+    return;
+  }
+
+  sendOAuthError(
+    res,
+    "unsupported_grant_type",
+    "Use authorization_code or client_credentials",
+  );
+}
+
+// --- HTTP Request Handler ---
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) {
+  const url = new URL(req.url || "/", ISSUER);
+  console.log(`[Auth] ${req.method} ${url.pathname}`);
+
+  // Browser-based MCP clients call discovery, registration and token endpoints directly
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  try {
+    if (url.pathname === "/health") {
+      sendJson(res, 200, { status: "healthy", issuer: ISSUER });
+    } else if (
+      req.method === "GET" &&
+      url.pathname === "/.well-known/oauth-authorization-server"
+    ) {
+      sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        registration_endpoint: `${ISSUER}/register`,
+        scopes_supported: ALL_SCOPES,
+        response_types_supported: ["code"],
+        grant_types_supported: ["authorization_code", "client_credentials"],
+        code_challenge_methods_supported: ["S256"],
+        token_endpoint_auth_methods_supported: ["none"],
+      });
+    } else if (req.method === "POST" && url.pathname === "/register") {
+      handleRegister(res, await readBody(req));
+    } else if (req.method === "GET" && url.pathname === "/authorize") {
+      handleAuthorize(url, res);
+    } else if (req.method === "POST" && url.pathname === "/token") {
+      handleToken(res, await readBody(req));
+    } else {
+      sendJson(res, 404, {
+        error: "Not found",
+        availableEndpoints: [
+          "/.well-known/oauth-authorization-server",
+          "/register",
+          "/authorize",
+          "/token",
+          "/health",
+        ],
+      });
+    }
+  } catch (error) {
+    sendOAuthError(
+      res,
+      "invalid_request",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+// --- Start Server ---
+const authServer = http.createServer(handleRequest);
+
+authServer.listen(PORT, () => {
+  console.log(`🔑 Mock authorization server running on ${ISSUER}`);
+  console.log(`📄 Metadata: ${ISSUER}/.well-known/oauth-authorization-server`);
+  console.log(
+    `🔌 Run the MCP server with JWT_ISSUER=${ISSUER} and the same JWT_SECRET`,
+  );
+  console.log(
+    `  curl -d grant_type=client_credentials -d role=user ${ISSUER}/token`,
+  );
+});
+
+// --- Graceful Shutdown ---
+const shutdown = () => {
+  console.log("\n🛑 Shutting down mock authorization server...");
+  authServer.close(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -9,3 +9,6 @@ export const orders = [
   { id: 2, user_id: 2, total: 19.0, created: "2025-05-03" },
   { id: 3, user_id: 1, total: 120.5, created: "2025-06-15" },
 ];
+
+export type User = (typeof users)[number];
+export type Order = (typeof orders)[number];
@@ -0,0 +1,54 @@
+// Mock Signal Connectors
+// In-process NPS and support systems backed by the seeded fixtures
+
+import { setTimeout as sleep } from "node:timers/promises";
+import type {
+  NpsConnector,
+  SupportConnector,
+  SupportSignals,
+} from "./signal-connectors";
+import { npsFixture, supportFixture } from "./signal-fixtures";
+
+// Simulated API round trip, so the workflow still overlaps the two calls.
+// Rejects with an AbortError as soon as the caller gives up, like fetch
+const delay = (ms: number, signal?: AbortSignal) =>
+  sleep(ms, undefined, { signal });
+
+export class MockNpsConnector implements NpsConnector {
+  readonly kind = "mock";
+
+  constructor(
+    private readonly seed: number,
+    private readonly latencyMs = 50,
+  ) {}
+
+  async fetchNps(
+    accountIds: string[],
+    signal?: AbortSignal,
+  ): Promise<Record<string, number | null>> {
+    await delay(this.latencyMs, signal);
+    return Object.fromEntries(
+      accountIds.map((id) => [id, npsFixture(this.seed, id)]),
+    );
+  }
+}
+
+export class MockSupportConnector implements SupportConnector {
+  readonly kind = "mock";
+
+  constructor(
+    private readonly seed: number,
+    private readonly latencyMs = 30,
+  ) {}
+
+  async fetchSupportSignals(
+    accountIds: string[],
+    _sinceIso: string,
+    signal?: AbortSignal,
+  ): Promise<Record<string, SupportSignals>> {
+    await delay(this.latencyMs, signal);
+    return Object.fromEntries(
+      accountIds.map((id) => [id, supportFixture(this.seed, id)]),
+    );
+  }
+}
@@ -0,0 +1,116 @@
+// OAuth Protected Resource
+// RFC 9728 metadata and RFC 6750 WWW-Authenticate challenges, so standard MCP
+// clients can discover which authorization server to use and which scopes to ask for
+
+import { ROLE_PERMISSIONS } from "./credential-store";
+import { ToolError } from "./errors";
+import { checkPermission } from "./utils";
+import type { AuthInfo, DemoUserInfo } from "./utils";
+
+export const RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// Every scope a token or API key can carry
+export const SCOPES_SUPPORTED = [
+  ...new Set(Object.values(ROLE_PERMISSIONS).flat()),
+];
+
+// --- Configuration ---
+// MCP_PUBLIC_URL=base URL clients reach the HTTP server at (default: http://localhost:<PORT>)
+// OAUTH_AUTHORIZATION_SERVERS=space-separated issuer URLs advertised to clients
+//   (default: JWT_ISSUER if it's a URL, otherwise the mock authorization server on :4020)
+// MCP_REQUIRED_SCOPES=space-separated scopes every /mcp request needs (default: read:users)
+export interface ResourceServerConfig {
+  resource: string; // the protected MCP endpoint
+  resourceMetadataUrl: string;
+  authorizationServers: string[];
+  requiredScopes: string[];
+}
+
+const splitList = (value: string) => value.split(/\s+/).filter(Boolean);
+
+export function resourceServerConfig(port: number): ResourceServerConfig {
+  const publicUrl = (
+    process.env.MCP_PUBLIC_URL || `http://localhost:${port}`
+  ).replace(/\/+$/, "");
+  const issuer = process.env.JWT_ISSUER;
+  const authorizationServers = process.env.OAUTH_AUTHORIZATION_SERVERS
+    ? splitList(process.env.OAUTH_AUTHORIZATION_SERVERS)
+    : [
+        issuer && /^https?:\/\//.test(issuer)
+          ? issuer
+          : "http://localhost:4020",
+      ];
+
+  return {
+    resource: `${publicUrl}/mcp`,
+    resourceMetadataUrl: `${publicUrl}${RESOURCE_METADATA_PATH}/mcp`,
+    authorizationServers,
+    requiredScopes: splitList(process.env.MCP_REQUIRED_SCOPES ?? "read:users"),
+  };
+}
+
+export function protectedResourceMetadata(config: ResourceServerConfig) {
+  return {
+    resource: config.resource,
+    authorization_servers: config.authorizationServers,
+    scopes_supported: SCOPES_SUPPORTED,
+    bearer_methods_supported: ["header"],
+    resource_name: "Customer Analytics MCP",
+  };
+}
+
+// --- Scope Checks ---
+// Endpoint-wide scopes; individual tools check their own and fail with FORBIDDEN
+// naming the missing scope. Admins pass every check, as in checkPermission.
+// Only these get a 403 with an insufficient_scope challenge: by the time a tool
+// runs, the transport has already sent 200 and the event stream headers, so a
+// tool's FORBIDDEN reaches the client as an error result with
+// details.requiredScopes instead
+export function requireEndpointScopes(
+  authInfo: NonNullable<AuthInfo>,
+  config: ResourceServerConfig,
+): void {
+  const auth = {
+    isAuthenticated: true,
+    authInfo,
+    user: authInfo.extra as unknown as DemoUserInfo,
+  };
+  const missing = config.requiredScopes.filter(
+    (scope) => !checkPermission(auth, scope),
+  );
+  if (missing.length > 0) {
+    throw new ToolError(
+      "FORBIDDEN",
+      `Insufficient scope. Required: ${missing.join(" ")}`,
+      { details: { requiredScopes: config.requiredScopes } },
+    );
+  }
+}
+
+// --- Challenges ---
+// Quoted-string values can't contain quotes or backslashes
+const quote = (value: string) => `"${value.replace(/["\\]/g, "'")}"`;
+
+// WWW-Authenticate for 401 and 403 responses; undefined for other errors.
+// invalid_token is only reported when a Bearer token was presented (RFC 6750 §3.1)
+export function wwwAuthenticate(
+  error: ToolError,
+  config: ResourceServerConfig,
+  bearerPresented: boolean,
+): string | undefined {
+  const params: string[] = [];
+  if (error.code === "FORBIDDEN") {
+    params.push('error="insufficient_scope"');
+    const scopes = error.details?.requiredScopes;
+    if (Array.isArray(scopes)) params.push(`scope=${quote(scopes.join(" "))}`);
+  } else if (error.code === "AUTH_REQUIRED") {
+    if (bearerPresented) {
+      params.push('error="invalid_token"');
+      params.push(`error_description=${quote(error.message)}`);
+    }
+  } else {
+    return undefined;
+  }
+  params.push(`resource_metadata=${quote(config.resourceMetadataUrl)}`);
+  return `Bearer ${params.join(", ")}`;
+}
@@ -0,0 +1,154 @@
+// Cursor tests: a cursor only resumes the query, caller and session it was
+// issued for, can't be edited, and expires
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, describe, it, mock } from "node:test";
+import { getCredentialStore } from "./credential-store";
+import { decodeCursor, encodeCursor, queryFingerprint } from "./pagination";
+import { ToolError } from "./errors";
+import { runSqlTool } from "../tools/sql-tool";
+import type { AuthContext, DemoUserInfo, ToolExecuteOptions } from "./utils";
+
+process.env.AUDIT_LOG_PATH = path.join(tmpdir(), "pagination-test-audit.jsonl");
+
+const authFor = (apiKey: string, sessionId?: string): AuthContext => {
+  const authInfo = getCredentialStore().authenticate(apiKey)!;
+  return {
+    isAuthenticated: true,
+    authInfo,
+    user: authInfo.extra as unknown as DemoUserInfo,
+    sessionId,
+  };
+};
+
+const fingerprint = queryFingerprint({ sql: "SELECT id FROM users" });
+
+const rejects = (
+  cursor: string,
+  auth: AuthContext,
+  message: RegExp,
+  tool = "run_sql",
+  print = fingerprint,
+) =>
+  assert.throws(
+    () => decodeCursor(cursor, auth, tool, print),
+    (error) =>
+      error instanceof ToolError &&
+      error.code === "INVALID_ARGUMENT" &&
+      message.test(error.message),
+  );
+
+describe("cursors", () => {
+  afterEach(() => mock.timers.reset());
+
+  it("resumes at the offset it was issued for", () => {
+    const auth = authFor("api_key_user_456", "session-1");
+    const cursor = encodeCursor(auth, "run_sql", fingerprint, 20);
+    assert.equal(decodeCursor(cursor, auth, "run_sql", fingerprint), 20);
+  });
+
+  it("rejects edited cursors", () => {
+    const auth = authFor("api_key_user_456");
+    const cursor = encodeCursor(auth, "run_sql", fingerprint, 20);
+    const [data, signature] = cursor.split(".");
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+    const edited = Buffer.from(
+      JSON.stringify({ ...payload, offset: 0 }),
+    ).toString("base64url");
+
+    for (const tampered of [
+      `${edited}.${signature}`,
+      `${data}.${signature.slice(1)}x`,
+      data,
+      "not-a-cursor",
+      "",
+    ]) {
+      rejects(tampered, auth, /^Invalid cursor/);
+    }
+  });
+
+  it("rejects another caller, session or query", () => {
+    const auth = authFor("api_key_user_456", "session-1");
+    const cursor = encodeCursor(auth, "run_sql", fingerprint, 20);
+
+    // Same role and user, but another API key and client
+    rejects(
+      cursor,
+      authFor("sk-user-987654321", "session-1"),
+      /different caller/,
+    );
+    rejects(
+      cursor,
+      authFor("api_key_user_456", "session-2"),
+      /different session/,
+    );
+    rejects(
+      cursor,
+      auth,
+      /does not match this request/,
+      "compute_account_health",
+    );
+    rejects(
+      cursor,
+      auth,
+      /does not match this request/,
+      "run_sql",
+      queryFingerprint({ sql: "SELECT id FROM orders" }),
+    );
+  });
+
+  it("keeps working after the caller's token is refreshed", () => {
+    const auth = authFor("api_key_user_456");
+    const cursor = encodeCursor(auth, "run_sql", fingerprint, 20);
+    const refreshed: AuthContext = {
+      ...auth,
+      authInfo: { ...auth.authInfo!, token: "a-refreshed-access-token" },
+    };
+    assert.equal(decodeCursor(cursor, refreshed, "run_sql", fingerprint), 20);
+  });
+
+  it("expires after an hour", () => {
+    mock.timers.enable({ apis: ["Date"], now: Date.parse("2025-06-01") });
+    const auth = authFor("api_key_user_456");
+    const cursor = encodeCursor(auth, "run_sql", fingerprint, 20);
+
+    mock.timers.tick(59 * 60 * 1000);
+    assert.equal(decodeCursor(cursor, auth, "run_sql", fingerprint), 20);
+    mock.timers.tick(60 * 1000);
+    rejects(cursor, auth, /^Cursor has expired/);
+  });
+
+  it("pages through run_sql results", async () => {
+    const context = runSqlTool.inputSchema!.parse({
+      sql: "SELECT id FROM orders ORDER BY id",
+      limit: 2,
+    });
+    const execute = runSqlTool.execute as unknown as (
+      params: { context: typeof context },
+      options: ToolExecuteOptions,
+    ) => Promise<{
+      rows: { id: number }[];
+      hasMore: boolean;
+      nextCursor?: string;
+    }>;
+    const options = {
+      extra: {
+        authInfo: getCredentialStore().authenticate("api_key_user_456")!,
+      },
+    } as ToolExecuteOptions;
+
+    const first = await execute({ context }, options);
+    assert.deepEqual(first.rows, [{ id: 1 }, { id: 2 }]);
+    assert.equal(first.hasMore, true);
+
+    const second = await execute(
+      { context: { ...context, cursor: first.nextCursor } },
+      options,
+    );
+    assert.deepEqual(second.rows, [{ id: 3 }]);
+    assert.equal(second.hasMore, false);
+    assert.equal(second.nextCursor, undefined);
+  });
+});
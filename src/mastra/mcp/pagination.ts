@@ -0,0 +1,130 @@
+// Cursor Pagination
+// Opaque, signed continuation cursors bound to the caller, session and query,
+// valid for an hour
+
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from "node:crypto";
+import type { AuthContext } from "./utils";
+import { ToolError } from "./errors";
+
+interface CursorPayload {
+  tool: string;
+  fingerprint: string;
+  principal: string;
+  session?: string;
+  offset: number;
+  expiresAt: number; // epoch ms
+}
+
+const CURSOR_TTL_MS = 60 * 60 * 1000;
+
+// Without CURSOR_SECRET, cursors are only valid until the server restarts
+const secret = process.env.CURSOR_SECRET || randomBytes(32).toString("hex");
+
+function sign(data: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+// The client and user (a JWT's sub) rather than the credential itself, so a
+// refreshed token keeps its cursors while another API key's client can't replay them
+function principalOf(auth: AuthContext): string {
+  return createHash("sha256")
+    .update(JSON.stringify([auth.authInfo?.clientId, auth.user?.userId]))
+    .digest("base64url");
+}
+
+// Key-order independent JSON, so equal inputs always fingerprint the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Fingerprint the inputs that define a result set (excluding cursor and page size)
+export function queryFingerprint(input: Record<string, unknown>): string {
+  return createHash("sha256")
+    .update(stableStringify(input))
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+export function encodeCursor(
+  auth: AuthContext,
+  tool: string,
+  fingerprint: string,
+  offset: number,
+): string {
+  const payload: CursorPayload = {
+    tool,
+    fingerprint,
+    principal: principalOf(auth),
+    session: auth.sessionId,
+    offset,
+    expiresAt: Date.now() + CURSOR_TTL_MS,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Returns the row offset the cursor points at, or throws if it can't be used here
+export function decodeCursor(
+  cursor: string,
+  auth: AuthContext,
+  tool: string,
+  fingerprint: string,
+): number {
+  const [data, signature] = cursor.split(".");
+  const expected = data ? sign(data) : "";
+  if (
+    !data ||
+    !signature ||
+    signature.length !== expected.length ||
+    !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Invalid cursor. Use the nextCursor value returned by the previous page.",
+    );
+  }
+
+  const payload = JSON.parse(
+    Buffer.from(data, "base64url").toString("utf8"),
+  ) as CursorPayload;
+
+  if (!(payload.expiresAt > Date.now())) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Cursor has expired. Omit the cursor to start over.",
+    );
+  }
+  if (payload.principal !== principalOf(auth)) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Cursor was issued to a different caller.",
+    );
+  }
+  if (payload.session !== auth.sessionId) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Cursor was issued in a different session.",
+    );
+  }
+  if (payload.tool !== tool || payload.fingerprint !== fingerprint) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      "Cursor does not match this request. Repeat the original arguments with the cursor, or omit the cursor to start over.",
+    );
+  }
+  return payload.offset;
+}
@@ -0,0 +1,428 @@
+// Query Planning for run_sql
+// Describes how a statement would be evaluated, with heuristic row estimates
+// starting from the row counts visible to the caller, without running it
+
+import { z } from "zod";
+import {
+  assertTablesExist,
+  ColumnInfo,
+  DataSource,
+  TableInfo,
+} from "./data-source";
+import {
+  containsAggregate,
+  Expr,
+  formatExpr,
+  JoinClause,
+  referencedTables,
+  SelectStatement,
+  walkExpr,
+} from "./sql-parser";
+import { Catalog, executeSelect } from "./sql-engine";
+import { hiddenColumnsFor, restrictedColumnsFor } from "./redaction";
+import { AppliedRowPolicySchema, resolveRowSecurity } from "./row-security";
+import { AuthContext, DemoUserInfo } from "./utils";
+
+// --- Shared with run_sql ---
+
+// Each table a query touches needs its own read permission (e.g. read:orders)
+export async function requiredPermissionsFor(
+  dataSource: DataSource,
+  statement: SelectStatement,
+): Promise<string[]> {
+  const tables = referencedTables(statement);
+  await assertTablesExist(dataSource, tables);
+  return tables.map((t) => `read:${t}`);
+}
+
+// The page size run_sql applies: the requested limit, capped for readonly users
+export function rowLimitFor(
+  role: DemoUserInfo["role"] | undefined,
+  limit: number,
+): { effectiveLimit: number; filteredByRole: boolean } {
+  if (role === "readonly") {
+    return { effectiveLimit: Math.min(limit, 10), filteredByRole: true };
+  }
+  return { effectiveLimit: limit, filteredByRole: false };
+}
+
+// --- Plan Schema ---
+export const QueryPlanSchema = z.object({
+  tables: z.array(
+    z.object({
+      table: z.string(),
+      alias: z.string(),
+      rowCount: z.number(),
+      access: z.literal("full scan"),
+    }),
+  ),
+  joins: z.array(
+    z.object({
+      type: z.enum(["inner", "left"]),
+      table: z.string(),
+      alias: z.string(),
+      strategy: z.literal("nested loop"),
+      condition: z.string(),
+      comparisons: z.number(),
+      estimatedRows: z.number(),
+    }),
+  ),
+  where: z.string().optional(),
+  rowPolicies: z.array(AppliedRowPolicySchema),
+  groupBy: z.array(z.string()),
+  having: z.string().optional(),
+  orderBy: z.array(z.string()),
+  distinct: z.boolean(),
+  estimatedRows: z.object({
+    scanned: z.number(), // rows read from the tables (after row policies)
+    beforeLimit: z.number(), // full result size before LIMIT and paging
+    returned: z.number(), // rows in the first page
+  }),
+  permissions: z.object({
+    required: z.array(z.string()),
+  }),
+  limit: z.object({
+    queryLimit: z.number().optional(),
+    queryOffset: z.number().optional(),
+    implicitLimit: z.boolean(), // true when the query has no LIMIT of its own
+    pageSize: z.number(),
+    filteredByRole: z.boolean(),
+  }),
+  warnings: z.array(z.string()),
+});
+export type QueryPlan = z.infer<typeof QueryPlanSchema>;
+
+// --- Selectivity Heuristics ---
+// Fractions of rows expected to pass a predicate; no statistics are kept, so
+// these are textbook defaults refined by primary keys and nullability
+const EQUALITY_SELECTIVITY = 0.1;
+const RANGE_SELECTIVITY = 1 / 3;
+const PATTERN_SELECTIVITY = 0.25;
+
+// Nested-loop work beyond this many row pairs is worth flagging
+const COMPARISON_WARNING_THRESHOLD = 10_000;
+
+interface PlanTable {
+  alias: string;
+  info: TableInfo;
+}
+
+type ColumnLookup = (
+  expr: Extract<Expr, { kind: "column" }>,
+) => { table: PlanTable; column: ColumnInfo } | undefined;
+
+function lookupIn(tables: PlanTable[]): ColumnLookup {
+  return (expr) => {
+    const candidates =
+      expr.table === undefined
+        ? tables
+        : tables.filter((t) => t.alias === expr.table);
+    for (const table of candidates) {
+      const column = table.info.columns.find((c) => c.name === expr.name);
+      if (column) return { table, column };
+    }
+    return undefined;
+  };
+}
+
+function selectivity(expr: Expr, lookup: ColumnLookup): number {
+  const invert = (s: number, negated: boolean) => (negated ? 1 - s : s);
+
+  switch (expr.kind) {
+    case "literal":
+      return expr.value === null || expr.value === false ? 0 : 1;
+    case "unary":
+      return expr.op === "not" ? 1 - selectivity(expr.operand, lookup) : 1;
+    case "binary": {
+      if (expr.op === "and") {
+        return selectivity(expr.left, lookup) * selectivity(expr.right, lookup);
+      }
+      if (expr.op === "or") {
+        const left = selectivity(expr.left, lookup);
+        const right = selectivity(expr.right, lookup);
+        return left + right - left * right;
+      }
+      if (expr.op === "=" || expr.op === "!=") {
+        return invert(equalitySelectivity(expr, lookup), expr.op === "!=");
+      }
+      if (["<", "<=", ">", ">="].includes(expr.op)) return RANGE_SELECTIVITY;
+      return 1;
+    }
+    case "in":
+      return invert(
+        Math.min(
+          1,
+          expr.values.length * equalitySelectivity({ left: expr.expr }, lookup),
+        ),
+        expr.negated,
+      );
+    case "between":
+    case "like":
+      return invert(PATTERN_SELECTIVITY, expr.negated);
+    case "isNull": {
+      const target =
+        expr.expr.kind === "column" ? lookup(expr.expr) : undefined;
+      const nullFraction =
+        target && !target.column.nullable ? 0 : EQUALITY_SELECTIVITY;
+      return invert(nullFraction, expr.negated);
+    }
+    default:
+      return RANGE_SELECTIVITY;
+  }
+}
+
+// "pk = value" matches a single row; anything else gets the default
+function equalitySelectivity(
+  expr: { left: Expr; right?: Expr },
+  lookup: ColumnLookup,
+): number {
+  for (const side of [expr.left, expr.right]) {
+    if (side?.kind !== "column") continue;
+    const target = lookup(side);
+    if (target?.column.primaryKey) {
+      return 1 / Math.max(target.table.info.rowCount, 1);
+    }
+  }
+  return EQUALITY_SELECTIVITY;
+}
+
+// --- Joins ---
+function aliasesIn(expr: Expr, lookup: ColumnLookup): Set<string> {
+  const aliases = new Set<string>();
+  walkExpr(expr, (node) => {
+    if (node.kind !== "column") return;
+    const target = lookup(node);
+    if (target) aliases.add(target.table.alias);
+  });
+  return aliases;
+}
+
+// Top-level AND terms of a predicate
+function conjuncts(expr: Expr): Expr[] {
+  return expr.kind === "binary" && expr.op === "and"
+    ? [...conjuncts(expr.left), ...conjuncts(expr.right)]
+    : [expr];
+}
+
+function estimateJoin(
+  join: JoinClause,
+  leftRows: number,
+  rightRows: number,
+  lookup: ColumnLookup,
+): { estimatedRows: number; crossJoin: boolean } {
+  const right = join.table.alias;
+  const aliases = aliasesIn(join.on, lookup);
+  const crossJoin =
+    !aliases.has(right) || [...aliases].every((a) => a === right);
+
+  let estimate = leftRows * rightRows * selectivity(join.on, lookup);
+  if (!crossJoin) {
+    // Equi-joins across the two sides: a unique key on either side bounds the output
+    for (const term of conjuncts(join.on)) {
+      if (
+        term.kind !== "binary" ||
+        term.op !== "=" ||
+        term.left.kind !== "column" ||
+        term.right.kind !== "column"
+      ) {
+        continue;
+      }
+      const a = lookup(term.left);
+      const b = lookup(term.right);
+      if (!a || !b || (a.table.alias === right) === (b.table.alias === right)) {
+        continue;
+      }
+      const [inner, outer] = a.table.alias === right ? [a, b] : [b, a];
+      if (inner.column.primaryKey) estimate = leftRows;
+      else if (outer.column.primaryKey) estimate = rightRows;
+      else estimate = Math.min(leftRows, rightRows);
+      break;
+    }
+  }
+
+  if (join.type === "left") estimate = Math.max(estimate, leftRows);
+  return { estimatedRows: Math.round(estimate), crossJoin };
+}
+
+// --- Grouping ---
+function estimateGroups(
+  statement: SelectStatement,
+  rows: number,
+  lookup: ColumnLookup,
+  tableSizes: Record<string, number>,
+): number {
+  if (statement.groupBy.length === 0) {
+    const aggregated =
+      statement.columns.some(
+        (c) => c.kind === "expr" && containsAggregate(c.expr),
+      ) || statement.having !== undefined;
+    return aggregated ? 1 : rows;
+  }
+
+  // Distinct values per key: a primary key is unique, a foreign key is bounded
+  // by the table it references, anything else is assumed to repeat about 10x
+  let groups = 1;
+  for (const key of statement.groupBy) {
+    const target = key.kind === "column" ? lookup(key) : undefined;
+    if (target?.column.primaryKey) {
+      groups *= target.table.info.rowCount;
+    } else if (target?.column.references) {
+      const referenced = tableSizes[target.column.references.table];
+      groups *= Math.min(rows, referenced ?? rows);
+    } else {
+      groups *= Math.max(1, Math.ceil(rows * EQUALITY_SELECTIVITY));
+    }
+  }
+  return Math.min(rows, groups);
+}
+
+// --- Planner ---
+export async function planQuery(
+  dataSource: DataSource,
+  statement: SelectStatement,
+  auth: AuthContext,
+  limit: number,
+): Promise<QueryPlan> {
+  const permissions = await requiredPermissionsFor(dataSource, statement);
+  const tableNames = referencedTables(statement);
+  const { filters: rowFilters, applied: rowPolicies } =
+    await resolveRowSecurity(dataSource, auth, tableNames);
+
+  // Row counts are what each table contributes after its row-level security filter
+  const infos: Record<string, TableInfo> = {};
+  for (const name of tableNames) {
+    const info = await dataSource.describeTable(name);
+    infos[name] = {
+      ...info,
+      rowCount: rowFilters[name]
+        ? await dataSource.countRows(name, rowFilters[name])
+        : info.rowCount,
+    };
+  }
+  const hiddenColumns = hiddenColumnsFor(auth.user?.role);
+  const restrictedColumns = restrictedColumnsFor(auth.user?.role);
+
+  // Validate against a catalog with no rows: the engine checks every column
+  // reference up front, so errors match run_sql while nothing is evaluated
+  const emptyCatalog: Catalog = Object.fromEntries(
+    tableNames.map((name) => [
+      name,
+      { columns: infos[name].columns.map((c) => c.name), rows: [] },
+    ]),
+  );
+  executeSelect(statement, emptyCatalog, {
+    hiddenColumns,
+    rowFilters,
+    restrictedColumns,
+  });
+
+  const tableRows: Record<string, number> = Object.fromEntries(
+    tableNames.map((name) => [name, infos[name].rowCount]),
+  );
+
+  const planTables: PlanTable[] = [
+    { alias: statement.from.alias, info: infos[statement.from.name] },
+    ...statement.joins.map((j) => ({
+      alias: j.table.alias,
+      info: infos[j.table.name],
+    })),
+  ];
+  const lookup = lookupIn(planTables);
+  const warnings: string[] = [];
+
+  // FROM and JOINs, in evaluation order
+  let rows = tableRows[statement.from.name];
+  let scanned = rows;
+  let comparisonsTotal = 0;
+  const joins = statement.joins.map((join) => {
+    const rightRows = tableRows[join.table.name];
+    const comparisons = rows * rightRows;
+    const { estimatedRows, crossJoin } = estimateJoin(
+      join,
+      rows,
+      rightRows,
+      lookup,
+    );
+    if (crossJoin) {
+      warnings.push(
+        `JOIN ${join.table.name} ${join.table.alias} ON ${formatExpr(join.on)} does not compare columns from both sides, so every row pair matches alike (${comparisons} combinations)`,
+      );
+    }
+    scanned += rightRows;
+    comparisonsTotal += comparisons;
+    rows = estimatedRows;
+    return {
+      type: join.type,
+      table: join.table.name,
+      alias: join.table.alias,
+      strategy: "nested loop" as const,
+      condition: formatExpr(join.on),
+      comparisons,
+      estimatedRows,
+    };
+  });
+  if (comparisonsTotal > COMPARISON_WARNING_THRESHOLD) {
+    warnings.push(
+      `Nested-loop joins evaluate about ${comparisonsTotal} row pairs; add WHERE conditions or join fewer tables`,
+    );
+  }
+
+  if (statement.where) {
+    rows = Math.round(rows * selectivity(statement.where, lookup));
+  }
+  rows = estimateGroups(statement, rows, lookup, tableRows);
+  if (statement.having) {
+    rows = Math.round(rows * selectivity(statement.having, lookup));
+  }
+
+  // The query's own LIMIT/OFFSET define the result; run_sql then pages through it
+  const offset = statement.offset ?? 0;
+  const beforeLimit = Math.max(
+    0,
+    Math.min(rows - offset, statement.limit ?? Infinity),
+  );
+  const { effectiveLimit, filteredByRole } = rowLimitFor(
+    auth.user?.role,
+    limit,
+  );
+
+  if (!statement.where && statement.limit === undefined) {
+    warnings.push(
+      `No WHERE or LIMIT: every row is read and results are returned ${effectiveLimit} at a time`,
+    );
+  }
+
+  return {
+    tables: planTables.map((t) => ({
+      table: t.info.name,
+      alias: t.alias,
+      rowCount: t.info.rowCount,
+      access: "full scan" as const,
+    })),
+    joins,
+    ...(statement.where ? { where: formatExpr(statement.where) } : {}),
+    rowPolicies,
+    groupBy: statement.groupBy.map(formatExpr),
+    ...(statement.having ? { having: formatExpr(statement.having) } : {}),
+    orderBy: statement.orderBy.map(
+      (o) => `${formatExpr(o.expr)} ${o.direction.toUpperCase()}`,
+    ),
+    distinct: statement.distinct,
+    estimatedRows: {
+      scanned,
+      beforeLimit,
+      returned: Math.min(beforeLimit, effectiveLimit),
+    },
+    permissions: { required: permissions },
+    limit: {
+      ...(statement.limit !== undefined ? { queryLimit: statement.limit } : {}),
+      ...(statement.offset !== undefined
+        ? { queryOffset: statement.offset }
+        : {}),
+      implicitLimit: statement.limit === undefined,
+      pageSize: effectiveLimit,
+      filteredByRole,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,212 @@
+// Redaction regression tests: masked and bucketed columns can be selected, but
+// never used to choose, group or order rows (which would recover their values)
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { MemoryDataSource } from "./memory-data-source";
+import { planQuery } from "./query-plan";
+import { restrictedColumnsFor } from "./redaction";
+import { RestrictedColumnError } from "./sql-engine";
+import { parseSelect } from "./sql-parser";
+import { toToolError } from "./errors";
+import { getCredentialStore } from "./credential-store";
+import { runSqlTool } from "../tools/sql-tool";
+import { computeAccountHealthTool } from "../tools/compute-account-health";
+import { resolveAuthContext, ToolExecuteOptions } from "./utils";
+
+process.env.AUDIT_LOG_PATH = path.join(tmpdir(), "redaction-test-audit.jsonl");
+process.env.HEALTH_SNAPSHOT_PATH = path.join(
+  tmpdir(),
+  "redaction-test-snapshots.jsonl",
+);
+
+const dataSource = new MemoryDataSource();
+const readonly = restrictedColumnsFor("readonly");
+
+const query = (sql: string, restrictedColumns = readonly) =>
+  dataSource.query(parseSelect(sql), { restrictedColumns });
+
+const authFor = (apiKey: string) => {
+  const authInfo = getCredentialStore().authenticate(apiKey)!;
+  return { extra: { authInfo } } as ToolExecuteOptions;
+};
+
+// Calls run_sql the way the MCP server does, as the caller owning apiKey
+async function runSql(sql: string, apiKey: string) {
+  const context = runSqlTool.inputSchema!.parse({ sql });
+  const execute = runSqlTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{ rows: Record<string, unknown>[] }>;
+  return execute({ context }, authFor(apiKey));
+}
+
+async function computeHealth(input: object, apiKey: string) {
+  const context = computeAccountHealthTool.inputSchema!.parse(input);
+  const execute = computeAccountHealthTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{
+    accounts: { contributions: { momentum: { value: number } } }[];
+    summary: { redactedColumns: { column: string }[] };
+  }>;
+  return execute({ context }, authFor(apiKey));
+}
+
+describe("restricted columns in the SQL engine", () => {
+  const rejected: [string, string, string][] = [
+    ["SELECT id FROM users WHERE name LIKE 'Av%'", "users.name", "WHERE"],
+    ["SELECT id FROM orders WHERE total >= 100", "orders.total", "WHERE"],
+    [
+      "SELECT u.id FROM users u JOIN orders o ON o.user_id = u.id AND o.total > 100",
+      "orders.total",
+      "JOIN ... ON",
+    ],
+    [
+      "SELECT total, COUNT(*) AS n FROM orders GROUP BY total",
+      "orders.total",
+      "GROUP BY",
+    ],
+    [
+      "SELECT user_id, SUM(total) AS spend FROM orders GROUP BY user_id HAVING spend > 100",
+      "orders.total",
+      "HAVING",
+    ],
+    ["SELECT id FROM users ORDER BY name", "users.name", "ORDER BY"],
+    ["SELECT id, name AS n FROM users ORDER BY n", "users.name", "ORDER BY"],
+    [
+      "SELECT id, total FROM orders ORDER BY 2 DESC",
+      "orders.total",
+      "ORDER BY",
+    ],
+    ["SELECT DISTINCT name FROM users", "users.name", "SELECT DISTINCT"],
+  ];
+
+  for (const [sql, column, clause] of rejected) {
+    it(`rejects ${clause} on ${column}: ${sql}`, async () => {
+      await assert.rejects(query(sql), (error: unknown) => {
+        assert.ok(error instanceof RestrictedColumnError);
+        assert.equal(error.column, column);
+        assert.equal(error.clause, clause);
+        return true;
+      });
+    });
+  }
+
+  it("still lets restricted columns be selected", async () => {
+    const result = await query(
+      "SELECT u.name, o.total FROM users u JOIN orders o ON o.user_id = u.id WHERE u.city != 'Nowhere' ORDER BY o.id",
+    );
+    assert.ok(result.rows.length > 0);
+  });
+
+  it("doesn't restrict COUNT over a restricted column", async () => {
+    await query("SELECT COUNT(name) AS n FROM users HAVING COUNT(name) > 0");
+  });
+
+  it("doesn't restrict roles without redaction rules", async () => {
+    const result = await query(
+      "SELECT id FROM users WHERE name LIKE 'A%' ORDER BY name",
+      restrictedColumnsFor("user"),
+    );
+    assert.ok(result.rows.length > 0);
+  });
+
+  it("classifies the error as FORBIDDEN with the column and clause", async () => {
+    await assert.rejects(
+      query("SELECT id FROM users ORDER BY name"),
+      (error: unknown) => {
+        const toolError = toToolError(error);
+        assert.equal(toolError.code, "FORBIDDEN");
+        assert.deepEqual(toolError.details, {
+          column: "users.name",
+          clause: "ORDER BY",
+        });
+        return true;
+      },
+    );
+  });
+});
+
+describe("restricted columns in the tools", () => {
+  it("run_sql rejects filtering on a masked column for readonly callers", async () => {
+    await assert.rejects(
+      runSql(
+        "SELECT id FROM users WHERE name LIKE 'Av%'",
+        "api_key_readonly_789",
+      ),
+      (error: unknown) => toToolError(error).code === "FORBIDDEN",
+    );
+  });
+
+  it("run_sql still allows it for callers who see names", async () => {
+    const result = await runSql(
+      "SELECT id FROM users WHERE name LIKE 'A%'",
+      "api_key_user_456",
+    );
+    assert.ok(result.rows.length > 0);
+  });
+
+  it("explain_sql reports the same rejection", async () => {
+    const auth = resolveAuthContext(authFor("api_key_readonly_789"));
+    await assert.rejects(
+      planQuery(
+        dataSource,
+        parseSelect("SELECT id FROM users ORDER BY name"),
+        auth,
+        10,
+      ),
+      RestrictedColumnError,
+    );
+  });
+});
+
+describe("fields derived from redacted columns", () => {
+  const forbidden = (error: unknown) => {
+    const toolError = toToolError(error);
+    assert.equal(toolError.code, "FORBIDDEN");
+    assert.equal(toolError.details?.column, "orders.total");
+    return true;
+  };
+
+  it("refuses named segments that filter on spend for readonly callers", async () => {
+    await assert.rejects(
+      computeHealth({ segment: "highValue" }, "api_key_readonly_789"),
+      forbidden,
+    );
+  });
+
+  it("refuses inline filters on spendDeltaPct for readonly callers", async () => {
+    await assert.rejects(
+      computeHealth(
+        { segmentFilter: "spendDeltaPct < -30" },
+        "api_key_readonly_789",
+      ),
+      forbidden,
+    );
+  });
+
+  it("still allows filters on fields that aren't redacted", async () => {
+    const result = await computeHealth(
+      { segment: "inactive" },
+      "api_key_readonly_789",
+    );
+    assert.ok(result.accounts.length > 0);
+  });
+
+  it("still allows spend filters for callers who see totals", async () => {
+    await computeHealth({ segment: "highValue" }, "api_key_user_456");
+  });
+
+  it("redacts spendDeltaPct and the momentum contribution", async () => {
+    const result = await computeHealth({}, "api_key_readonly_789");
+    const columns = result.summary.redactedColumns.map((c) => c.column);
+    assert.ok(columns.includes("metrics.spendDeltaPct"));
+    assert.ok(columns.includes("contributions.momentum.value"));
+    for (const account of result.accounts) {
+      assert.equal(account.contributions.momentum.value % 50, 0);
+    }
+  });
+});
@@ -0,0 +1,191 @@
+// Column Redaction Policy
+// Declares, per role, which source columns are hidden, masked or bucketed
+
+import { z } from "zod";
+import type { DemoUserInfo } from "./utils";
+import type { Row } from "./sql-engine";
+
+// --- Policy Types ---
+export type RedactionRule =
+  | { action: "hide" } // column is removed; queries can't reference it
+  | { action: "mask" } // strings keep their first character, other values become null
+  | { action: "bucket"; size: number }; // numbers round down to a multiple of size
+
+export type RedactionPolicy = Record<
+  DemoUserInfo["role"],
+  Record<string, RedactionRule> // keyed by "table.column"
+>;
+
+// Reported in tool metadata so callers know which values were altered
+export const RedactedColumnSchema = z.object({
+  column: z.string(),
+  action: z.enum(["hide", "mask", "bucket"]),
+  sources: z.array(z.string()),
+  bucketSize: z.number().optional(),
+});
+export type RedactedColumn = z.infer<typeof RedactedColumnSchema>;
+
+// --- Default Policy ---
+export const redactionPolicy: RedactionPolicy = {
+  admin: {},
+  user: {},
+  readonly: {
+    "users.name": { action: "mask" },
+    "orders.total": { action: "bucket", size: 50 },
+  },
+};
+
+// Unknown roles get the most restrictive rules
+export function rulesForRole(
+  role: DemoUserInfo["role"] | undefined,
+): Record<string, RedactionRule> {
+  return (role && redactionPolicy[role]) || redactionPolicy.readonly;
+}
+
+export function hiddenColumnsFor(
+  role: DemoUserInfo["role"] | undefined,
+): string[] {
+  return Object.entries(rulesForRole(role))
+    .filter(([, rule]) => rule.action === "hide")
+    .map(([column]) => column);
+}
+
+// Masked and bucketed columns: returned redacted, so queries may select them
+// but not filter, join, group or sort on their exact values
+export function restrictedColumnsFor(
+  role: DemoUserInfo["role"] | undefined,
+): string[] {
+  return Object.entries(rulesForRole(role))
+    .filter(([, rule]) => rule.action !== "hide")
+    .map(([column]) => column);
+}
+
+// Hidden columns never reach the result, so report them per table touched
+export function hiddenColumnsReport(
+  role: DemoUserInfo["role"] | undefined,
+  tables: string[],
+): RedactedColumn[] {
+  return hiddenColumnsFor(role)
+    .filter((column) => tables.includes(column.split(".")[0]))
+    .map((column) => ({ column, action: "hide", sources: [column] }));
+}
+
+// --- Lineage of Computed Fields ---
+// Tools that aggregate in code declare which source columns each output field
+// is derived from, so the policy redacts them as it would the same run_sql result
+export const orderMoneyLineage = (
+  ...fields: string[]
+): Record<string, string[]> =>
+  Object.fromEntries(fields.map((field) => [field, ["orders.total"]]));
+
+export const accountNameLineage = { name: ["users.name"] };
+
+// The AccountMetrics fields computed from order totals
+export const accountMetricsLineage = orderMoneyLineage(
+  "spendWindow",
+  "spendPrevWindow",
+  "spendDeltaPct",
+);
+
+// A row returned as read from its table
+export const tableRowLineage = (table: string, row: object) =>
+  Object.fromEntries(Object.keys(row).map((c) => [c, [`${table}.${c}`]]));
+
+// --- Applying Rules ---
+const strictness: Record<RedactionRule["action"], number> = {
+  hide: 3,
+  mask: 2,
+  bucket: 1,
+};
+
+// A value derived from several source columns takes the strictest rule
+function effectiveRule(
+  sources: string[],
+  rules: Record<string, RedactionRule>,
+): RedactionRule | undefined {
+  let result: RedactionRule | undefined;
+  for (const source of sources) {
+    const rule = rules[source];
+    if (!rule) continue;
+    if (!result || strictness[rule.action] > strictness[result.action]) {
+      result = rule;
+    } else if (rule.action === "bucket" && result.action === "bucket") {
+      result = { action: "bucket", size: Math.max(rule.size, result.size) };
+    }
+  }
+  return result;
+}
+
+export function maskValue(value: unknown): unknown {
+  if (value == null) return value;
+  if (typeof value === "string") {
+    return value.length > 0 ? `${value[0]}***` : value;
+  }
+  return null;
+}
+
+export function applyRule(rule: RedactionRule, value: unknown): unknown {
+  if (rule.action === "bucket" && typeof value === "number") {
+    return Math.floor(value / rule.size) * rule.size;
+  }
+  return maskValue(value);
+}
+
+// Redact result rows using each output column's source lineage.
+// When removeHidden is false (fixed output schemas) hidden fields are masked instead.
+export function redactRows<T extends Row>(
+  rows: T[],
+  lineage: Record<string, string[]>,
+  role: DemoUserInfo["role"] | undefined,
+  { removeHidden = true }: { removeHidden?: boolean } = {},
+): { rows: T[]; redactedColumns: RedactedColumn[] } {
+  const rules = rulesForRole(role);
+  const redactedColumns: RedactedColumn[] = [];
+  const plan: [string, RedactionRule][] = [];
+
+  for (const [column, sources] of Object.entries(lineage)) {
+    const rule = effectiveRule(sources, rules);
+    if (!rule) continue;
+    plan.push([column, rule]);
+    redactedColumns.push({
+      column,
+      action: rule.action,
+      sources: sources.filter((s) => rules[s]),
+      ...(rule.action === "bucket" ? { bucketSize: rule.size } : {}),
+    });
+  }
+
+  if (plan.length === 0) return { rows, redactedColumns };
+
+  const redacted = rows.map((row) => {
+    const copy: Row = { ...row };
+    for (const [column, rule] of plan) {
+      if (!(column in copy)) continue;
+      if (rule.action === "hide" && removeHidden) delete copy[column];
+      else copy[column] = applyRule(rule, copy[column]);
+    }
+    return copy as T;
+  });
+  return { rows: redacted, redactedColumns };
+}
+
+// Redact the rows nested under each parent (e.g. every cohort's curve) in one
+// pass, so each field is reported once; rows come back grouped as given
+export function redactNested<T extends Row>(
+  groups: T[][],
+  lineage: Record<string, string[]>,
+  role: DemoUserInfo["role"] | undefined,
+  options: { removeHidden?: boolean } = {},
+): { rows: T[][]; redactedColumns: RedactedColumn[] } {
+  const { rows, redactedColumns } = redactRows(
+    groups.flat(),
+    lineage,
+    role,
+    options,
+  );
+  let offset = 0;
+  return {
+    rows: groups.map((group) => rows.slice(offset, (offset += group.length))),
+    redactedColumns,
+  };
+}
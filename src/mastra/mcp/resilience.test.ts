@@ -0,0 +1,136 @@
+// Resilience tests: the circuit breaker opens after repeated failures, lets one
+// trial call through once the reset time has passed, and timeouts and retries
+// give up when they should
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  RetryExhaustedError,
+  retryWithBackoff,
+  TimeoutError,
+  withTimeout,
+} from "./resilience";
+
+const fail = () => Promise.reject(new Error("upstream down"));
+const succeed = () => Promise.resolve("ok");
+
+// Makes `failures` failing calls through the breaker (by default, enough to open it)
+async function trip(breaker: CircuitBreaker, failures = 3) {
+  for (let i = 0; i < failures; i++) {
+    await assert.rejects(breaker.execute(fail), /upstream down/);
+  }
+}
+
+describe("circuit breaker", () => {
+  beforeEach(() => mock.timers.enable({ apis: ["Date"], now: 1_000_000 }));
+  afterEach(() => mock.timers.reset());
+
+  it("opens after the failure threshold and fails fast", async () => {
+    const breaker = new CircuitBreaker("nps", 3, 30_000);
+    await trip(breaker, 2);
+    assert.equal(breaker.state, "closed");
+    await trip(breaker, 1);
+    assert.equal(breaker.state, "open");
+
+    mock.timers.tick(10_000);
+    let called = false;
+    await assert.rejects(
+      breaker.execute(() => {
+        called = true;
+        return succeed();
+      }),
+      (error) =>
+        error instanceof CircuitOpenError && error.retryInMs === 20_000,
+    );
+    assert.equal(called, false);
+  });
+
+  it("resets the failure count on success", async () => {
+    const breaker = new CircuitBreaker("nps", 3, 30_000);
+    await trip(breaker, 2);
+    assert.equal(await breaker.execute(succeed), "ok");
+    await trip(breaker, 2);
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("closes after a successful trial call", async () => {
+    const breaker = new CircuitBreaker("nps", 3, 30_000);
+    await trip(breaker);
+    mock.timers.tick(30_000);
+    assert.equal(breaker.state, "half_open");
+    assert.equal(await breaker.execute(succeed), "ok");
+    assert.equal(breaker.state, "closed");
+  });
+
+  it("reopens for a full period after a failed trial call", async () => {
+    const breaker = new CircuitBreaker("nps", 3, 30_000);
+    await trip(breaker);
+    mock.timers.tick(30_000);
+    await trip(breaker, 1);
+    assert.equal(breaker.state, "open");
+    await assert.rejects(
+      breaker.execute(succeed),
+      (error) =>
+        error instanceof CircuitOpenError && error.retryInMs === 30_000,
+    );
+  });
+
+  it("lets only one trial call through at a time", async () => {
+    const breaker = new CircuitBreaker("nps", 3, 30_000);
+    await trip(breaker);
+    mock.timers.tick(45_000);
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(
+      () => new Promise<string>((resolve) => (finishTrial = resolve)),
+    );
+    // Past the reset time, so the wait is never negative
+    await assert.rejects(
+      breaker.execute(succeed),
+      (error) => error instanceof CircuitOpenError && error.retryInMs === 0,
+    );
+    finishTrial("ok");
+    assert.equal(await trial, "ok");
+    assert.equal(await breaker.execute(succeed), "ok");
+  });
+});
+
+describe("timeouts and retries", () => {
+  const policy = { timeoutMs: 20, retries: 2, backoffMs: 1, maxBackoffMs: 2 };
+
+  it("stops waiting and aborts the call after the timeout", async () => {
+    let aborted = false;
+    await assert.rejects(
+      withTimeout(10, (signal) => {
+        signal.addEventListener("abort", () => (aborted = true));
+        return new Promise(() => {});
+      }),
+      TimeoutError,
+    );
+    assert.equal(aborted, true);
+  });
+
+  it("retries until an attempt succeeds", async () => {
+    let attempt = 0;
+    const outcome = await retryWithBackoff(policy, () =>
+      ++attempt < 3 ? fail() : succeed(),
+    );
+    assert.deepEqual(outcome, {
+      value: "ok",
+      attempts: 3,
+      errors: ["upstream down", "upstream down"],
+    });
+  });
+
+  it("gives up after the last retry with every error", async () => {
+    await assert.rejects(
+      retryWithBackoff(policy, fail),
+      (error) =>
+        error instanceof RetryExhaustedError &&
+        error.errors.length === 3 &&
+        error.message === "3 attempts failed; last error: upstream down",
+    );
+  });
+});
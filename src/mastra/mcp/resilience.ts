@@ -0,0 +1,142 @@
+// Resilience Helpers
+// Timeouts, bounded retries with backoff, and circuit breaking for calls to
+// external systems
+
+export interface ResiliencePolicy {
+  timeoutMs: number; // per attempt
+  retries: number; // extra attempts after the first
+  backoffMs: number; // first retry delay; doubles each retry, with jitter
+  maxBackoffMs: number;
+}
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(
+    name: string,
+    public readonly retryInMs: number,
+  ) {
+    super(
+      `Circuit open for ${name} after repeated failures; retrying in ${Math.ceil(retryInMs / 1000)}s`,
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class RetryExhaustedError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(
+      errors.length === 1
+        ? errors[0]
+        : `${errors.length} attempts failed; last error: ${errors[errors.length - 1]}`,
+    );
+    this.name = "RetryExhaustedError";
+  }
+}
+
+// --- Timeout ---
+// The signal lets cooperative callees (e.g. fetch) stop work; the race makes
+// sure the caller stops waiting even if they don't
+export async function withTimeout<T>(
+  ms: number,
+  fn: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(ms));
+    }, ms);
+  });
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// --- Retry ---
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface RetryOutcome<T> {
+  value: T;
+  attempts: number;
+  errors: string[]; // failures from attempts before the one that succeeded
+}
+
+export async function retryWithBackoff<T>(
+  policy: ResiliencePolicy,
+  fn: (signal: AbortSignal) => Promise<T>,
+): Promise<RetryOutcome<T>> {
+  const errors: string[] = [];
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const value = await withTimeout(policy.timeoutMs, fn);
+      return { value, attempts: attempt, errors };
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+      if (attempt > policy.retries) {
+        throw new RetryExhaustedError(errors);
+      }
+      const backoff = Math.min(
+        policy.maxBackoffMs,
+        policy.backoffMs * 2 ** (attempt - 1),
+      );
+      await sleep(backoff / 2 + Math.random() * (backoff / 2));
+    }
+  }
+}
+
+// --- Circuit Breaker ---
+// closed: calls pass through. open: calls fail fast until resetAfterMs has
+// passed. half_open: one trial call decides whether to close or reopen.
+export type CircuitState = "closed" | "open" | "half_open";
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private readonly failureThreshold = 3,
+    private readonly resetAfterMs = 30_000,
+  ) {}
+
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) return "closed";
+    return Date.now() - this.openedAt >= this.resetAfterMs
+      ? "half_open"
+      : "open";
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half_open" && this.trialInFlight)) {
+      // Half-open with a trial in flight is already past the reset time
+      throw new CircuitOpenError(
+        this.name,
+        Math.max(0, this.resetAfterMs - (Date.now() - this.openedAt)),
+      );
+    }
+
+    this.trialInFlight = state === "half_open";
+    try {
+      const result = await fn();
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (this.failures >= this.failureThreshold) this.openedAt = Date.now();
+      throw error;
+    } finally {
+      this.trialInFlight = false;
+    }
+  }
+}
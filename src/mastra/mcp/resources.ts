@@ -2,34 +2,219 @@ import {
   MCPServerResourceContent,
   MCPServerResources,
   Resource,
+  ResourceTemplate,
 } from "@mastra/mcp";
+import { assertTablesExist, getDataSource, TableInfo } from "./data-source";
+import { ToolError } from "./errors";
+import { hiddenColumnsFor } from "./redaction";
+import { resolveRowSecurity } from "./row-security";
+import { listSegments, SEGMENT_FIELDS } from "./segments";
+import {
+  AuthContext,
+  checkPermission,
+  requireAuth,
+  resolveAuthContext,
+} from "./utils";
+
+const schemaNotes = [
+  "read-only access",
+  "prefer aggregates + LIMIT for safety",
+];
+const schemaExamples = [
+  "List distinct cities from users",
+  "Total order spend by user",
+];
+
+// --- Live Metadata ---
+// Tables the caller may read (read:<table>), minus columns their role hides,
+// with row counts after the caller's row-level security filters
+async function describeReadableTables(
+  auth: AuthContext,
+  only?: string,
+): Promise<TableInfo[]> {
+  requireAuth(auth);
+  const dataSource = await getDataSource();
+  const hidden = new Set(hiddenColumnsFor(auth.user?.role));
+  if (only) await assertTablesExist(dataSource, [only]);
+
+  const names: string[] = [];
+  for (const name of only ? [only] : await dataSource.listTables()) {
+    if (checkPermission(auth, `read:${name}`)) {
+      names.push(name);
+    } else if (only) {
+      throw new ToolError(
+        "FORBIDDEN",
+        `Insufficient scope. Required: read:${name}`,
+        { details: { requiredScopes: [`read:${name}`] } },
+      );
+    }
+  }
+
+  const { filters } = await resolveRowSecurity(dataSource, auth, names);
+  const tables: TableInfo[] = [];
+  for (const name of names) {
+    const info = await dataSource.describeTable(name);
+    tables.push({
+      ...info,
+      columns: info.columns.filter((c) => !hidden.has(`${name}.${c.name}`)),
+      rowCount: filters[name]
+        ? await dataSource.countRows(name, filters[name])
+        : info.rowCount,
+    });
+  }
+  return tables;
+}
+
+// --- Renderers ---
+function renderTableText(table: TableInfo): string {
+  const lines = [`  ${table.name}: # ${table.rowCount} rows`];
+  for (const c of table.columns) {
+    const details = [
+      c.type,
+      ...(c.primaryKey ? ["primary key"] : []),
+      ...(c.nullable ? ["nullable"] : []),
+      ...(c.references
+        ? [`references ${c.references.table}.${c.references.column}`]
+        : []),
+    ];
+    lines.push(`    - ${c.name}: ${details.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function renderSchemaText(tables: TableInfo[]): string {
+  const list = (items: string[]) => items.map((i) => `  - "${i}"`).join("\n");
+  return [
+    "",
+    "tables:",
+    ...tables.map(renderTableText),
+    "notes:",
+    ...schemaNotes.map((n) => `  - ${n}`),
+    "examples:",
+    list(schemaExamples),
+    "",
+  ].join("\n");
+}
+
+function renderSchemaJson(tables: TableInfo[]): string {
+  return JSON.stringify(
+    { tables, notes: schemaNotes, examples: schemaExamples },
+    null,
+    2,
+  );
+}
+
+// Segments compute_account_health accepts by name, and the fields filters can use
+async function renderSegmentsJson(): Promise<string> {
+  const segments = await listSegments();
+  return JSON.stringify(
+    {
+      segments: segments.map((s) => ({
+        name: s.name,
+        description: s.description,
+        ...(s.filter ? { filter: s.filter } : {}),
+        fields: s.fields,
+        // Filters on NPS or support fields run after external signals are fetched
+        needsExternalSignals: s.needsSignals,
+      })),
+      fields: SEGMENT_FIELDS,
+    },
+    null,
+    2,
+  );
+}
 
-const schemaText = `
-tables:
-  users(id, name, city, joined)
-  orders(id, user_id -> users.id, total, created)
-notes:
-  - read-only access
-  - prefer aggregates + LIMIT for safety
-examples:
-  - "List distinct cities from users"
-  - "Total order spend by user"
-`;
+// --- URIs ---
+// schema://main and schema://table/<name>; a ".json" suffix selects application/json
+const SEGMENTS_URI = "segments://account-health";
+const TABLE_URI = /^schema:\/\/table\/([A-Za-z_][A-Za-z0-9_]*)(\.json)?$/;
 
 const resourceHandlers: MCPServerResources = {
-  listResources: async (): Promise<Resource[]> => [
+  // The server caches this list for every caller, so it names all tables;
+  // permissions are enforced when a resource is read
+  listResources: async (): Promise<Resource[]> => {
+    const dataSource = await getDataSource();
+    const tableResources = (await dataSource.listTables()).flatMap(
+      (table): Resource[] => [
+        {
+          uri: `schema://table/${table}`,
+          name: `Table schema: ${table}`,
+          description: `Columns, types, keys and row count for ${table}`,
+          mimeType: "text/plain",
+        },
+        {
+          uri: `schema://table/${table}.json`,
+          name: `Table schema: ${table} (JSON)`,
+          description: `Columns, types, keys and row count for ${table}`,
+          mimeType: "application/json",
+        },
+      ],
+    );
+
+    return [
+      {
+        uri: "schema://main",
+        name: "Database schema",
+        description:
+          "Tables you can read, with column types, keys, row counts and examples",
+        mimeType: "text/plain",
+      },
+      {
+        uri: "schema://main.json",
+        name: "Database schema (JSON)",
+        description:
+          "Tables you can read, with column types, keys, row counts and examples",
+        mimeType: "application/json",
+      },
+      ...tableResources,
+      {
+        uri: SEGMENTS_URI,
+        name: "Account health segments",
+        description:
+          "Named segments for compute_account_health, their filter expressions, and the fields inline filters can use",
+        mimeType: "application/json",
+      },
+    ];
+  },
+  resourceTemplates: async (): Promise<ResourceTemplate[]> => [
     {
-      uri: "schema://main",
-      name: "Database schema",
-      description: "Complete database schema with examples",
+      uriTemplate: "schema://table/{table}",
+      name: "Table schema",
+      description: "Columns, types, keys and row count for one table",
       mimeType: "text/plain",
     },
+    {
+      uriTemplate: "schema://table/{table}.json",
+      name: "Table schema (JSON)",
+      description: "Columns, types, keys and row count for one table",
+      mimeType: "application/json",
+    },
   ],
   getResourceContent: async ({ uri }): Promise<MCPServerResourceContent> => {
+    const auth = resolveAuthContext();
+
     if (uri === "schema://main") {
-      return { text: schemaText };
+      return { text: renderSchemaText(await describeReadableTables(auth)) };
+    }
+    if (uri === "schema://main.json") {
+      return { text: renderSchemaJson(await describeReadableTables(auth)) };
+    }
+
+    if (uri === SEGMENTS_URI) {
+      requireAuth(auth);
+      return { text: await renderSegmentsJson() };
+    }
+
+    const match = TABLE_URI.exec(uri);
+    if (match) {
+      const [table] = await describeReadableTables(auth, match[1]);
+      return {
+        text: match[2]
+          ? JSON.stringify(table, null, 2)
+          : `\n${renderTableText(table)}\n`,
+      };
     }
-    throw new Error(`Resource not found: ${uri}`);
+    throw new ToolError("NOT_FOUND", `Resource not found: ${uri}`);
   },
 };
 
@@ -0,0 +1,119 @@
+// Result Formatting for run_sql
+// Compact encodings of query results to save tokens on large result sets
+
+import { z } from "zod";
+import type { ColumnType } from "./data-source";
+import type { Row } from "./sql-engine";
+
+export const ResultFormatSchema = z.enum([
+  "json",
+  "columnar",
+  "csv",
+  "markdown",
+]);
+export type ResultFormat = z.infer<typeof ResultFormatSchema>;
+
+export const ResultColumnSchema = z.object({
+  name: z.string(),
+  type: z.enum(["integer", "real", "text", "date", "boolean"]),
+});
+export type ResultColumn = z.infer<typeof ResultColumnSchema>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+Z?)?$/;
+
+function typeOfValue(value: unknown): ResultColumn["type"] {
+  if (typeof value === "boolean") return "boolean";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "real";
+  }
+  if (typeof value === "string" && ISO_DATE.test(value)) return "date";
+  return "text";
+}
+
+// Infer each output column's type from its values; when every value is null,
+// fall back to the declared type of the single source column it came from
+export function describeColumns(
+  columns: string[],
+  rows: Row[],
+  lineage: Record<string, string[]>,
+  sourceTypes: Record<string, ColumnType>,
+): ResultColumn[] {
+  return columns.map((name) => {
+    const types = new Set(
+      rows
+        .map((r) => r[name])
+        .filter((v) => v != null)
+        .map(typeOfValue),
+    );
+    let type: ResultColumn["type"];
+    if (types.size === 0) {
+      const sources = lineage[name] ?? [];
+      type = (sources.length === 1 && sourceTypes[sources[0]]) || "text";
+    } else if (types.size === 1) {
+      type = [...types][0];
+    } else if ([...types].every((t) => t === "integer" || t === "real")) {
+      type = "real";
+    } else {
+      type = "text";
+    }
+    return { name, type };
+  });
+}
+
+// --- Encoders ---
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(columns: string[], rows: Row[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => csvCell(row[c])).join(","));
+  }
+  return lines.join("\n");
+}
+
+function markdownCell(value: unknown): string {
+  if (value == null) return "";
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function toMarkdown(columns: string[], rows: Row[]): string {
+  const lines = [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of rows) {
+    lines.push(`| ${columns.map((c) => markdownCell(row[c])).join(" | ")} |`);
+  }
+  return lines.join("\n");
+}
+
+export function toColumnar(
+  columns: string[],
+  rows: Row[],
+): Record<string, unknown[]> {
+  return Object.fromEntries(
+    columns.map((c) => [c, rows.map((r) => r[c] ?? null)]),
+  );
+}
+
+// "json" keeps row objects in `rows`; every other format moves the data into `data`
+export function formatResult(
+  format: ResultFormat,
+  columns: string[],
+  rows: Row[],
+): { rows: Row[]; data?: string | Record<string, unknown[]> } {
+  switch (format) {
+    case "json":
+      return { rows };
+    case "columnar":
+      return { rows: [], data: toColumnar(columns, rows) };
+    case "csv":
+      return { rows: [], data: toCsv(columns, rows) };
+    case "markdown":
+      return { rows: [], data: toMarkdown(columns, rows) };
+  }
+}
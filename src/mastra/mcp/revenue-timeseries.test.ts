@@ -0,0 +1,68 @@
+// revenue_timeseries input tests: dates must be real calendar days, so a range
+// never rolls over into another month or fails while bucketing
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { getCredentialStore } from "./credential-store";
+import { revenueTimeseriesTool } from "../tools/revenue-timeseries";
+import type { ToolExecuteOptions } from "./utils";
+
+process.env.AUDIT_LOG_PATH = path.join(
+  tmpdir(),
+  "revenue-timeseries-test-audit.jsonl",
+);
+
+const parse = (input: Record<string, unknown>) =>
+  revenueTimeseriesTool.inputSchema!.safeParse(input);
+
+// Calls revenue_timeseries the way the MCP server does, as the analyst
+async function revenueTimeseries(input: Record<string, unknown>) {
+  const context = revenueTimeseriesTool.inputSchema!.parse(input);
+  const execute = revenueTimeseriesTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{
+    series: { points: { period: string; revenue: number }[] }[];
+    metadata: { since: string; until: string };
+  }>;
+  const authInfo = getCredentialStore().authenticate("api_key_user_456")!;
+  return execute({ context }, { extra: { authInfo } } as ToolExecuteOptions);
+}
+
+describe("revenue_timeseries dates", () => {
+  for (const day of ["2025-13-01", "2025-02-30", "2025-00-10", "2024-06-31"]) {
+    it(`rejects ${day} as since and until`, () => {
+      for (const field of ["since", "until"]) {
+        const result = parse({ [field]: day });
+        assert.equal(result.success, false);
+        assert.deepEqual(result.error!.issues[0].path, [field]);
+        assert.equal(result.error!.issues[0].message, "Not a calendar date");
+      }
+    });
+  }
+
+  it("accepts leap days and month ends", () => {
+    for (const day of ["2024-02-29", "2025-01-31", "2025-12-31"]) {
+      assert.equal(parse({ since: day, until: day }).success, true, day);
+    }
+    assert.equal(parse({ since: "2025-02-29" }).success, false);
+  });
+
+  it("reports the range it bucketed", async () => {
+    const result = await revenueTimeseries({
+      since: "2025-05-01",
+      until: "2025-06-30",
+    });
+    assert.equal(result.metadata.since, "2025-05-01");
+    assert.equal(result.metadata.until, "2025-06-30");
+    assert.deepEqual(
+      result.series[0].points.map((p) => [p.period, p.revenue]),
+      [
+        ["2025-05-01", 78.99],
+        ["2025-06-01", 120.5],
+      ],
+    );
+  });
+});
@@ -0,0 +1,121 @@
+// Row-level security regression tests: a policy on users also hides the orders
+// that belong to hidden users, whichever tables a query or tool reads
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { MemoryDataSource } from "./memory-data-source";
+import { planQuery } from "./query-plan";
+import { resolveRowSecurity } from "./row-security";
+import { parseSelect } from "./sql-parser";
+import { runSqlTool } from "../tools/sql-tool";
+import type {
+  AuthContext,
+  AuthInfo,
+  DemoUserInfo,
+  ToolExecuteOptions,
+} from "./utils";
+
+process.env.AUDIT_LOG_PATH = path.join(
+  tmpdir(),
+  "row-security-test-audit.jsonl",
+);
+
+const dataSource = new MemoryDataSource();
+
+// The Waterloo partner only sees users in Waterloo (user 1, who placed orders 1 and 3)
+const partner: DemoUserInfo = {
+  userId: "partner-1",
+  username: "partner",
+  role: "user",
+  permissions: ["read:users", "read:orders"],
+};
+const partnerAuthInfo: NonNullable<AuthInfo> = {
+  token: "partner-token",
+  clientId: "waterloo-partner-client",
+  scopes: partner.permissions,
+  extra: { ...partner },
+};
+const partnerAuth: AuthContext = {
+  isAuthenticated: true,
+  authInfo: partnerAuthInfo,
+  user: partner,
+};
+
+async function runSql(sql: string) {
+  const context = runSqlTool.inputSchema!.parse({ sql });
+  const execute = runSqlTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{
+    rows: Record<string, unknown>[];
+    metadata: { rowPolicies: { id: string; table: string }[] };
+  }>;
+  return execute({ context }, {
+    extra: { authInfo: partnerAuthInfo },
+  } as ToolExecuteOptions);
+}
+
+describe("row security through foreign keys", () => {
+  it("filters orders by the visible users even when users isn't read", async () => {
+    const { filters, applied } = await resolveRowSecurity(
+      dataSource,
+      partnerAuth,
+      ["orders"],
+    );
+    assert.ok(filters.orders);
+    assert.equal(filters.users, undefined);
+    assert.deepEqual(
+      applied.map((p) => [p.id, p.table]),
+      [["partner-waterloo-only", "orders"]],
+    );
+
+    const result = await dataSource.query(
+      parseSelect("SELECT id FROM orders ORDER BY id"),
+      { rowFilters: filters },
+    );
+    assert.deepEqual(result.rows, [{ id: 1 }, { id: 3 }]);
+  });
+
+  it("leaves tables unfiltered for callers without policies", async () => {
+    const { filters, applied } = await resolveRowSecurity(
+      dataSource,
+      { ...partnerAuth, authInfo: { ...partnerAuthInfo, clientId: "other" } },
+      ["users", "orders"],
+    );
+    assert.deepEqual(filters, {});
+    assert.deepEqual(applied, []);
+  });
+
+  it("run_sql only returns the partner's orders", async () => {
+    const result = await runSql("SELECT id, user_id FROM orders ORDER BY id");
+    assert.deepEqual(result.rows, [
+      { id: 1, user_id: 1 },
+      { id: 3, user_id: 1 },
+    ]);
+    assert.ok(
+      result.metadata.rowPolicies.some(
+        (p) => p.id === "partner-waterloo-only" && p.table === "orders",
+      ),
+    );
+  });
+
+  it("explain_sql reports row counts after the caller's filters", async () => {
+    const plan = await planQuery(
+      dataSource,
+      parseSelect(
+        "SELECT u.name, o.total FROM users u JOIN orders o ON o.user_id = u.id",
+      ),
+      partnerAuth,
+      50,
+    );
+    assert.deepEqual(
+      plan.tables.map((t) => [t.table, t.rowCount]),
+      [
+        ["users", 1],
+        ["orders", 2],
+      ],
+    );
+  });
+});
@@ -0,0 +1,245 @@
+// Row-Level Security Policies
+// Declares which rows of a table a caller may see, keyed on user, client or scopes.
+// Tables whose foreign keys reference a filtered table inherit its restriction
+
+import { z } from "zod";
+import { getDataSource, readFilteredTable } from "./data-source";
+import type { AuthContext, DemoUserInfo } from "./utils";
+import type { BinaryOperator, Expr, LiteralValue } from "./sql-parser";
+import type { DataSource } from "./data-source";
+import type { Order, User } from "./mock-data";
+
+// --- Policy Types ---
+export type RowCondition =
+  | {
+      column: string;
+      op: "=" | "!=" | "<" | "<=" | ">" | ">=";
+      // { daysAgo } resolves to an ISO date (YYYY-MM-DD) when the policy is applied
+      value: LiteralValue | { daysAgo: number };
+    }
+  | { column: string; op: "in"; values: LiteralValue[] };
+
+export interface RowPolicy {
+  id: string;
+  description: string;
+  table: string;
+  // Every listed criterion must match; a scope criterion matches if the caller has any of them
+  appliesTo: {
+    roles?: DemoUserInfo["role"][];
+    userIds?: string[];
+    clientIds?: string[];
+    scopes?: string[];
+  };
+  // Conditions are ANDed together
+  conditions: RowCondition[];
+}
+
+// Reported in tool metadata so callers know their results were filtered
+export const AppliedRowPolicySchema = z.object({
+  id: z.string(),
+  table: z.string(),
+  description: z.string(),
+});
+export type AppliedRowPolicy = z.infer<typeof AppliedRowPolicySchema>;
+
+// --- Default Policies ---
+export const rowPolicies: RowPolicy[] = [
+  {
+    id: "partner-waterloo-only",
+    description: "The Waterloo partner client may only see users in Waterloo",
+    table: "users",
+    appliesTo: { clientIds: ["waterloo-partner-client"] },
+    conditions: [{ column: "city", op: "=", value: "Waterloo" }],
+  },
+  {
+    id: "readonly-recent-accounts",
+    description:
+      "Readonly viewers only see accounts that joined in the last two years",
+    table: "users",
+    appliesTo: { roles: ["readonly"] },
+    conditions: [{ column: "joined", op: ">=", value: { daysAgo: 730 } }],
+  },
+];
+
+// --- Matching ---
+function matches(policy: RowPolicy, auth: AuthContext): boolean {
+  const { roles, userIds, clientIds, scopes } = policy.appliesTo;
+  const user = auth.user;
+  const authInfo = auth.authInfo;
+
+  if (roles && !(user && roles.includes(user.role))) return false;
+  if (userIds && !(user && userIds.includes(user.userId))) return false;
+  if (clientIds && !(authInfo && clientIds.includes(authInfo.clientId))) {
+    return false;
+  }
+  if (scopes && !scopes.some((s) => authInfo?.scopes.includes(s))) {
+    return false;
+  }
+  return true;
+}
+
+// Policies that apply to the caller, optionally limited to the tables a query touches
+export function rowPoliciesFor(
+  auth: AuthContext,
+  tables?: string[],
+): RowPolicy[] {
+  return rowPolicies.filter(
+    (p) => matches(p, auth) && (!tables || tables.includes(p.table)),
+  );
+}
+
+export function describePolicies(policies: RowPolicy[]): AppliedRowPolicy[] {
+  return policies.map(({ id, table, description }) => ({
+    id,
+    table,
+    description,
+  }));
+}
+
+// --- Compiling to Engine Predicates ---
+function resolveValue(value: LiteralValue | { daysAgo: number }): LiteralValue {
+  if (value !== null && typeof value === "object") {
+    const date = new Date(Date.now() - value.daysAgo * 24 * 3600 * 1000);
+    return date.toISOString().slice(0, 10);
+  }
+  return value;
+}
+
+function compileCondition(table: string, condition: RowCondition): Expr {
+  const column: Expr = { kind: "column", table, name: condition.column };
+  if (condition.op === "in") {
+    return {
+      kind: "in",
+      expr: column,
+      values: condition.values.map((value) => ({ kind: "literal", value })),
+      negated: false,
+    };
+  }
+  return {
+    kind: "binary",
+    op: condition.op as BinaryOperator,
+    left: column,
+    right: { kind: "literal", value: resolveValue(condition.value) },
+  };
+}
+
+const and = (left: Expr | undefined, right: Expr): Expr =>
+  left ? { kind: "binary", op: "and", left, right } : right;
+
+// Combine every applicable policy into one predicate per table
+export function rowFiltersFor(policies: RowPolicy[]): Record<string, Expr> {
+  const filters: Record<string, Expr> = {};
+  for (const policy of policies) {
+    for (const condition of policy.conditions) {
+      filters[policy.table] = and(
+        filters[policy.table],
+        compileCondition(policy.table, condition),
+      );
+    }
+  }
+  return filters;
+}
+
+// --- Resolving Against a Data Source ---
+export interface RowSecurity {
+  // One predicate per filtered table, over that table's own columns
+  filters: Record<string, Expr>;
+  // Every policy shaping those tables, including ones inherited through foreign keys
+  applied: AppliedRowPolicy[];
+}
+
+// Row security for the tables a caller reads. A row that references a hidden
+// parent row is hidden too: with users filtered, orders only keeps rows whose
+// user_id is a visible users.id, whether or not the query reads users
+export async function resolveRowSecurity(
+  dataSource: DataSource,
+  auth: AuthContext,
+  tables: string[],
+): Promise<RowSecurity> {
+  const policies = rowPoliciesFor(auth);
+  const direct = rowFiltersFor(policies);
+  const resolved = new Map<string, AppliedRowPolicy[]>();
+  const filters: Record<string, Expr> = {};
+
+  // Applied policies for one table; parents are resolved first. A foreign-key
+  // cycle falls back to the table's own policies
+  const resolve = async (table: string): Promise<AppliedRowPolicy[]> => {
+    const done = resolved.get(table);
+    if (done) return done;
+    const applied = describePolicies(policies.filter((p) => p.table === table));
+    resolved.set(table, applied);
+    if (direct[table]) filters[table] = direct[table];
+
+    const { columns } = await dataSource.describeTable(table);
+    for (const column of columns) {
+      const parent = column.references;
+      if (!parent || parent.table === table) continue;
+      const inherited = await resolve(parent.table);
+      const parentFilter = filters[parent.table];
+      if (!parentFilter) continue;
+
+      const visible = await dataSource.readTable(parent.table, {
+        where: parentFilter,
+      });
+      const keys = new Set(visible.map((row) => row[parent.column]));
+      filters[table] = and(filters[table], {
+        kind: "in",
+        expr: { kind: "column", table, name: column.name },
+        values: [...keys].map((value) => ({
+          kind: "literal",
+          value: value as LiteralValue,
+        })),
+        negated: false,
+      });
+      const via = `${table}.${column.name} → ${parent.table}.${parent.column}`;
+      applied.push(
+        ...inherited.map((p) => ({
+          id: p.id,
+          table,
+          description: `${p.description} (applied through ${via})`,
+        })),
+      );
+    }
+    return applied;
+  };
+
+  const applied: AppliedRowPolicy[] = [];
+  for (const table of tables) applied.push(...(await resolve(table)));
+  return {
+    filters: Object.fromEntries(
+      tables.filter((t) => filters[t]).map((t) => [t, filters[t]]),
+    ),
+    applied,
+  };
+}
+
+// --- Reading Visible Rows ---
+// For tools that aggregate users and orders in code instead of through the SQL
+// engine: the rows the caller may see, before any grouping or limits.
+// Tables not listed come back empty
+export interface VisibleTables {
+  users: User[];
+  orders: Order[];
+  rowPolicies: AppliedRowPolicy[];
+}
+
+export async function loadVisibleTables(
+  auth: AuthContext,
+  tables: ("users" | "orders")[],
+): Promise<VisibleTables> {
+  const dataSource = await getDataSource();
+  const { filters, applied } = await resolveRowSecurity(
+    dataSource,
+    auth,
+    tables,
+  );
+  const read = async <T extends User | Order>(table: "users" | "orders") =>
+    tables.includes(table)
+      ? readFilteredTable<T>(dataSource, table, filters[table])
+      : [];
+  const [users, orders] = await Promise.all([
+    read<User>("users"),
+    read<Order>("orders"),
+  ]);
+  return { users, orders, rowPolicies: applied };
+}
@@ -0,0 +1,66 @@
+// Scoring policy config tests: a missing or malformed config file is a
+// CONFIG_ERROR naming the file, and a failed load is retried on the next call
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ToolError } from "./errors";
+import { policyId, resolveScoringPolicy } from "./scoring-policy";
+
+const configError = (file: string, message: RegExp) => (error: unknown) =>
+  error instanceof ToolError &&
+  error.code === "CONFIG_ERROR" &&
+  error.message.includes(file) &&
+  message.test(error.message);
+
+describe("scoring policy config", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "scoring-policy-test-"));
+  });
+
+  after(() => {
+    delete process.env.SCORING_POLICY_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports a missing file", async () => {
+    const file = path.join(dir, "missing.json");
+    process.env.SCORING_POLICY_PATH = file;
+    await assert.rejects(
+      resolveScoringPolicy(),
+      configError(file, /^Can't read scoring policy config .*ENOENT/),
+    );
+  });
+
+  it("reports a file that isn't JSON", async () => {
+    const file = path.join(dir, "malformed.json");
+    writeFileSync(file, '{ "policies": [');
+    process.env.SCORING_POLICY_PATH = file;
+    await assert.rejects(
+      resolveScoringPolicy(),
+      configError(file, /^Can't read scoring policy config .*JSON/),
+    );
+  });
+
+  it("reports JSON that isn't a scoring policy config", async () => {
+    const file = path.join(dir, "invalid.json");
+    writeFileSync(
+      file,
+      JSON.stringify({ default: "standard", policies: "none" }),
+    );
+    process.env.SCORING_POLICY_PATH = file;
+    await assert.rejects(
+      resolveScoringPolicy(),
+      configError(file, /^Invalid scoring policy config .*policies: /),
+    );
+  });
+
+  it("loads again after a failed load", async () => {
+    delete process.env.SCORING_POLICY_PATH;
+    assert.equal(policyId(await resolveScoringPolicy()), "standard@1");
+  });
+});
@@ -0,0 +1,144 @@
+// Account Health Scoring Policies
+// Named, versioned weights and thresholds for compute_account_health, loaded
+// from a validated config file so scores can be reproduced later
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ToolError } from "./errors";
+
+// --- Config Schema ---
+const WeightsSchema = z
+  .object({
+    recency: z.number().min(0).max(1),
+    momentum: z.number().min(0).max(1),
+    satisfaction: z.number().min(0).max(1),
+    reliability: z.number().min(0).max(1),
+  })
+  .refine(
+    (w) =>
+      Math.abs(w.recency + w.momentum + w.satisfaction + w.reliability - 1) <
+      1e-6,
+    { message: "Weights must sum to 1" },
+  );
+
+export const ScoringPolicySchema = z.object({
+  name: z.string().regex(/^[a-z0-9-]+$/, "Use lowercase letters, digits and -"),
+  version: z.number().int().positive(),
+  description: z.string(),
+  weights: WeightsSchema,
+  // Points subtracted from the 0-100 reliability signal per ticket or breach
+  penalties: z.object({
+    openP1Ticket: z.number().nonnegative(),
+    slaBreach: z.number().nonnegative(),
+  }),
+  // Minimum score for each tier; anything below "watch" is at_risk
+  tiers: z
+    .object({
+      good: z.number().min(0).max(100),
+      watch: z.number().min(0).max(100),
+    })
+    .refine((t) => t.good > t.watch, {
+      message: "tiers.good must be above tiers.watch",
+    }),
+  // Thresholds that trigger a reason in the output
+  reasons: z.object({
+    inactiveDays: z.number().int().positive(),
+    spendDropPct: z.number().positive(), // e.g. 30 => "spend down >30%"
+    lowNps: z.number().min(0).max(100),
+  }),
+});
+export type ScoringPolicy = z.infer<typeof ScoringPolicySchema>;
+
+const ScoringConfigSchema = z
+  .object({
+    default: z.string(),
+    policies: z.array(ScoringPolicySchema).min(1),
+  })
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    for (const policy of config.policies) {
+      const id = policyId(policy);
+      if (seen.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate policy ${id}`,
+        });
+      }
+      seen.add(id);
+    }
+    if (!config.policies.some((p) => p.name === config.default)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Default policy "${config.default}" is not defined`,
+      });
+    }
+  });
+type ScoringConfig = z.infer<typeof ScoringConfigSchema>;
+
+// Reported with every score, e.g. "standard@1"
+export function policyId(policy: Pick<ScoringPolicy, "name" | "version">) {
+  return `${policy.name}@${policy.version}`;
+}
+
+// --- Loading ---
+// SCORING_POLICY_PATH=path to the JSON config (default: config/scoring-policies.json)
+let activeConfig: Promise<ScoringConfig> | undefined;
+
+async function loadConfig(): Promise<ScoringConfig> {
+  const file = path.resolve(
+    process.cwd(),
+    process.env.SCORING_POLICY_PATH || "config/scoring-policies.json",
+  );
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Can't read scoring policy config ${file}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const result = ScoringConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Invalid scoring policy config ${file}: ${issues}`,
+    );
+  }
+  return result.data;
+}
+
+function getConfig(): Promise<ScoringConfig> {
+  if (!activeConfig) {
+    activeConfig = loadConfig().catch((error) => {
+      // Allow a later call to retry after the file is fixed
+      activeConfig = undefined;
+      throw error;
+    });
+  }
+  return activeConfig;
+}
+
+// Resolve "name@version", or "name" for its latest version; omit for the default
+export async function resolveScoringPolicy(
+  ref?: string,
+): Promise<ScoringPolicy> {
+  const config = await getConfig();
+  const [name, version] = (ref ?? config.default).split("@");
+  const candidates = config.policies
+    .filter((p) => p.name === name)
+    .filter((p) => version === undefined || String(p.version) === version)
+    .sort((a, b) => b.version - a.version);
+
+  if (candidates.length === 0) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Unknown scoring policy "${ref}". Available: ${config.policies.map(policyId).join(", ")}`,
+    );
+  }
+  return candidates[0];
+}
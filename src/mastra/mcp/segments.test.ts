@@ -0,0 +1,65 @@
+// Segment config tests: a missing or malformed config file is a CONFIG_ERROR
+// naming the file, and a failed load is retried on the next call
+
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { ToolError } from "./errors";
+import { listSegments } from "./segments";
+
+const configError = (file: string, message: RegExp) => (error: unknown) =>
+  error instanceof ToolError &&
+  error.code === "CONFIG_ERROR" &&
+  error.message.includes(file) &&
+  message.test(error.message);
+
+describe("segment config", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "segments-test-"));
+  });
+
+  after(() => {
+    delete process.env.SEGMENTS_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reports a missing file", async () => {
+    const file = path.join(dir, "missing.json");
+    process.env.SEGMENTS_PATH = file;
+    await assert.rejects(
+      listSegments(),
+      configError(file, /^Can't read segment config .*ENOENT/),
+    );
+  });
+
+  it("reports a file that isn't JSON", async () => {
+    const file = path.join(dir, "malformed.json");
+    writeFileSync(file, '{ "segments": [');
+    process.env.SEGMENTS_PATH = file;
+    await assert.rejects(
+      listSegments(),
+      configError(file, /^Can't read segment config .*JSON/),
+    );
+  });
+
+  it("reports JSON that isn't a segment config", async () => {
+    const file = path.join(dir, "invalid.json");
+    writeFileSync(file, JSON.stringify({ segments: "none" }));
+    process.env.SEGMENTS_PATH = file;
+    await assert.rejects(
+      listSegments(),
+      configError(file, /^Invalid segment config .*segments: /),
+    );
+  });
+
+  it("loads again after a failed load", async () => {
+    delete process.env.SEGMENTS_PATH;
+    const segments = await listSegments();
+    assert.equal(segments[0].name, "all");
+    assert.ok(segments.length > 1);
+  });
+});
@@ -0,0 +1,257 @@
+// Account Segments
+// Named filters over compute_account_health metrics, loaded from a validated
+// config file, e.g. "spendWindow >= 500 AND openP1Tickets > 0"
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { ToolError } from "./errors";
+import { accountMetricsLineage, rulesForRole } from "./redaction";
+import { filterTableRows, Row } from "./sql-engine";
+import { Expr, parseExpression, walkExpr } from "./sql-parser";
+import type { DemoUserInfo } from "./utils";
+
+// --- Filterable Fields ---
+// Computed from order data, so they can be filtered before any external calls
+const ORDER_FIELDS = [
+  "lastOrderDays",
+  "orderCountWindow",
+  "spendWindow",
+  "spendPrevWindow",
+  "spendDeltaPct",
+];
+// Only known once NPS and support signals have been fetched
+const SIGNAL_FIELDS = ["nps", "openP1Tickets", "slaBreachesWindow"];
+export const SEGMENT_FIELDS = [...ORDER_FIELDS, ...SIGNAL_FIELDS];
+
+export interface Segment {
+  name: string;
+  description: string;
+  filter?: string; // undefined for "all"
+  predicate?: Expr;
+  fields: string[]; // metrics the filter reads
+  needsSignals: boolean;
+}
+
+const ALL_SEGMENT: Segment = {
+  name: "all",
+  description: "Every account",
+  fields: [],
+  needsSignals: false,
+};
+
+// Parse and check a filter expression; throws with the reason it can't be used
+export function compileSegmentFilter(
+  filter: string,
+): Pick<Segment, "predicate" | "fields" | "needsSignals"> {
+  let predicate: Expr;
+  try {
+    predicate = parseExpression(filter);
+  } catch (error) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Invalid segment filter "${filter}": ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const fields = new Set<string>();
+  walkExpr(predicate, (node) => {
+    if (node.kind === "column") {
+      if (node.table !== undefined || !SEGMENT_FIELDS.includes(node.name)) {
+        const name = node.table ? `${node.table}.${node.name}` : node.name;
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          `Unknown field "${name}" in segment filter. Available fields: ${SEGMENT_FIELDS.join(", ")}`,
+        );
+      }
+      fields.add(node.name);
+    }
+    if (node.kind === "aggregate") {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        "Aggregate functions are not allowed in segment filters",
+      );
+    }
+    if (node.kind === "param") {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        "Bind parameters are not allowed in segment filters",
+      );
+    }
+  });
+  return {
+    predicate,
+    fields: [...fields],
+    needsSignals: [...fields].some((f) => SIGNAL_FIELDS.includes(f)),
+  };
+}
+
+// --- Config Schema ---
+const SegmentDefinitionSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[A-Za-z][A-Za-z0-9_-]*$/, "Use letters, digits, _ and -")
+      .refine((name) => name !== ALL_SEGMENT.name, {
+        message: `"${ALL_SEGMENT.name}" is built in and can't be redefined`,
+      }),
+    description: z.string(),
+    filter: z.string(),
+  })
+  .superRefine((segment, ctx) => {
+    try {
+      compileSegmentFilter(segment.filter);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["filter"],
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+const SegmentConfigSchema = z
+  .object({ segments: z.array(SegmentDefinitionSchema) })
+  .superRefine((config, ctx) => {
+    const seen = new Set<string>();
+    for (const segment of config.segments) {
+      if (seen.has(segment.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate segment ${segment.name}`,
+        });
+      }
+      seen.add(segment.name);
+    }
+  });
+
+// --- Loading ---
+// SEGMENTS_PATH=path to the JSON config (default: config/segments.json)
+let activeSegments: Promise<Segment[]> | undefined;
+
+async function loadSegments(): Promise<Segment[]> {
+  const file = path.resolve(
+    process.cwd(),
+    process.env.SEGMENTS_PATH || "config/segments.json",
+  );
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(file, "utf8"));
+  } catch (error) {
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Can't read segment config ${file}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+  const result = SegmentConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+      .join("; ");
+    throw new ToolError(
+      "CONFIG_ERROR",
+      `Invalid segment config ${file}: ${issues}`,
+    );
+  }
+  return [
+    ALL_SEGMENT,
+    ...result.data.segments.map((s) => ({
+      ...s,
+      ...compileSegmentFilter(s.filter),
+    })),
+  ];
+}
+
+export function listSegments(): Promise<Segment[]> {
+  if (!activeSegments) {
+    activeSegments = loadSegments().catch((error) => {
+      // Allow a later call to retry after the file is fixed
+      activeSegments = undefined;
+      throw error;
+    });
+  }
+  return activeSegments;
+}
+
+// A registered segment by name, narrowed further by an optional inline filter
+export async function resolveSegment(
+  name: string,
+  inlineFilter?: string,
+): Promise<Segment> {
+  const segments = await listSegments();
+  const named = segments.find((s) => s.name === name);
+  if (!named) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Unknown segment "${name}". Available: ${segments.map((s) => s.name).join(", ")}`,
+    );
+  }
+  if (!inlineFilter) return named;
+
+  const filter = named.filter
+    ? `(${named.filter}) AND (${inlineFilter})`
+    : inlineFilter;
+  // Compile the inline part alone first so errors point at what the caller wrote
+  compileSegmentFilter(inlineFilter);
+  return {
+    name: named.filter ? `${named.name}+inline` : "inline",
+    description: named.filter
+      ? `${named.description}, narrowed by an inline filter`
+      : "Inline filter",
+    filter,
+    ...compileSegmentFilter(filter),
+  };
+}
+
+// --- Access ---
+// Which accounts match a threshold gives away the exact value behind it
+// (halving "spendWindow >= N" recovers it), so like run_sql's WHERE, a filter
+// can't read fields whose source column the caller's role redacts
+function redactedField(
+  segment: Segment,
+  role: DemoUserInfo["role"] | undefined,
+): { field: string; column: string } | undefined {
+  const rules = rulesForRole(role);
+  for (const field of segment.fields) {
+    const column = accountMetricsLineage[field]?.find((c) => rules[c]);
+    if (column) return { field, column };
+  }
+  return undefined;
+}
+
+export const canFilterSegment = (
+  segment: Segment,
+  role: DemoUserInfo["role"] | undefined,
+) => redactedField(segment, role) === undefined;
+
+export function requireSegmentAccess(
+  segment: Segment,
+  role: DemoUserInfo["role"] | undefined,
+): void {
+  const redacted = redactedField(segment, role);
+  if (redacted) {
+    throw new ToolError(
+      "FORBIDDEN",
+      `Segment "${segment.name}" filters on ${redacted.field}, which is derived from ${redacted.column}; your role only sees ${redacted.column} redacted`,
+      { details: redacted },
+    );
+  }
+}
+
+// --- Evaluation ---
+// Keep the items whose metrics match the segment (null-safe, SQL semantics)
+export function filterBySegment<T>(
+  items: T[],
+  segment: Segment,
+  metricsOf: (item: T) => Row,
+): T[] {
+  if (!segment.predicate) return items;
+  const rows = items.map(metricsOf);
+  const matched = new Set(
+    filterTableRows(
+      "metrics",
+      { columns: SEGMENT_FIELDS, rows },
+      segment.predicate,
+    ),
+  );
+  return items.filter((_, i) => matched.has(rows[i]));
+}
@@ -3,7 +3,20 @@
 
 import { MCPServer } from "@mastra/mcp";
 import resourceHandlers from "./resources";
-import { computeAccountHealthTool, runSqlTool } from "../tools";
+import { installToolErrorResults } from "./errors";
+import { apiKeyPrefix, getCredentialStore } from "./credential-store";
+import {
+  accountDetailsTool,
+  accountHealthTrendTool,
+  auditLogTool,
+  cohortAnalysisTool,
+  computeAccountHealthTool,
+  explainSqlTool,
+  invalidateSignalCacheTool,
+  revenueTimeseriesTool,
+  runSqlTool,
+  simulateAccountHealthTool,
+} from "../tools";
 import { readFileSync } from "fs";
 import path from "node:path";
 
@@ -18,11 +31,22 @@ const server = new MCPServer({
     "Customer analytics MCP server with multi-system workflows: database queries, health scoring, and external data integration",
   tools: {
     compute_account_health: computeAccountHealthTool,
+    account_health_trend: accountHealthTrendTool,
+    simulate_account_health: simulateAccountHealthTool,
+    account_details: accountDetailsTool,
+    cohort_analysis: cohortAnalysisTool,
+    revenue_timeseries: revenueTimeseriesTool,
     run_sql: runSqlTool,
+    explain_sql: explainSqlTool,
+    audit_log: auditLogTool,
+    invalidate_signal_cache: invalidateSignalCacheTool,
   },
   resources: resourceHandlers,
 });
 
+// Typed tool errors reach clients as isError results (see errors.ts)
+installToolErrorResults(server);
+
 // --- Start server based on transport type ---
 const main = async () => {
 
@@ -35,7 +59,7 @@ const main = async () => {
     "Purpose: Customer health analysis with multi-system data integration",
   );
   console.error(
-    "Tools: compute_account_health (workflow), run_sql (database), schema resource",
+    "Tools: compute_account_health (workflow), account_health_trend (history), simulate_account_health (what-if), account_details (customer 360), cohort_analysis (cohorts), revenue_timeseries (analytics), run_sql (database), explain_sql (dry run), audit_log (admin), invalidate_signal_cache (admin), schema and segment resources",
   );
   console.error(
     "Patterns: External APIs, business logic, authentication, safety guardrails",
@@ -45,7 +69,7 @@ const main = async () => {
     // Log authentication mode for stdio
     const authMode = process.env.DEMO_API_KEY ? "environment" : "default";
     console.error(
-      `Authentication: Using ${authMode} credentials (DEMO_API_KEY=${process.env.DEMO_API_KEY || "not set"})`,
+      `Authentication: Using ${authMode} credentials (DEMO_API_KEY=${process.env.DEMO_API_KEY ? `${apiKeyPrefix(process.env.DEMO_API_KEY)}...` : "not set"}, ${getCredentialStore().kind} credential store)`,
     );
 
     await server.startStdio();
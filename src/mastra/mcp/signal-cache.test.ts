@@ -0,0 +1,147 @@
+// Signal cache tests: entries are reused until their TTL passes, invalidation
+// removes them, and the file store replays both after a restart
+
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import {
+  CachedSignal,
+  FileSignalCache,
+  MemorySignalCache,
+  SignalProvider,
+  signalCacheTtlMs,
+} from "./signal-cache";
+import { fetchExternalSignals } from "./signal-connectors";
+
+const NOW = Date.parse("2025-06-01T12:00:00Z");
+
+const entry = (
+  provider: SignalProvider,
+  accountId: string,
+  ttlMs: number,
+): CachedSignal => ({
+  provider,
+  accountId,
+  window: "90d",
+  value: accountId,
+  cachedAt: new Date(NOW).toISOString(),
+  expiresAt: NOW + ttlMs,
+});
+
+describe("signal cache", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "signal-cache-test-"));
+  });
+  after(() => rmSync(dir, { recursive: true, force: true }));
+  afterEach(() => mock.timers.reset());
+
+  it("serves entries until they expire", async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    const cache = new MemorySignalCache();
+    await cache.set([entry("nps", "1", 1_000), entry("nps", "2", 5_000)]);
+
+    assert.deepEqual(
+      await cache.get("nps", "90d", ["1", "2", "3"]),
+      new Map([
+        ["1", "1"],
+        ["2", "2"],
+      ]),
+    );
+    // Other windows and providers are separate entries
+    assert.equal((await cache.get("nps", "30d", ["1"])).size, 0);
+    assert.equal((await cache.get("support", "90d", ["1"])).size, 0);
+
+    mock.timers.tick(1_000);
+    assert.deepEqual(
+      await cache.get("nps", "90d", ["1", "2"]),
+      new Map([["2", "2"]]),
+    );
+    assert.equal(await cache.size(), 1);
+  });
+
+  it("invalidates by provider and account", async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    const cache = new MemorySignalCache();
+    await cache.set([
+      entry("nps", "1", 60_000),
+      entry("nps", "2", 60_000),
+      entry("support", "1", 60_000),
+    ]);
+
+    assert.equal(
+      await cache.invalidate({ provider: "nps", accountIds: ["1"] }),
+      1,
+    );
+    assert.deepEqual(
+      [...(await cache.get("nps", "90d", ["1", "2"])).keys()],
+      ["2"],
+    );
+    assert.equal(await cache.invalidate({ accountIds: ["1"] }), 1);
+    assert.equal(await cache.invalidate({}), 1);
+    assert.equal(await cache.size(), 0);
+  });
+
+  it("replays sets and invalidations from the file and drops expired entries", async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    const file = path.join(dir, "signal-cache.jsonl");
+    const cache = new FileSignalCache(file);
+    await cache.set([
+      entry("nps", "1", 60_000),
+      entry("nps", "2", 60_000),
+      entry("support", "1", 1_000),
+    ]);
+    await cache.invalidate({ provider: "nps", accountIds: ["2"] });
+
+    mock.timers.tick(1_000);
+    const restarted = new FileSignalCache(file);
+    assert.deepEqual(
+      await restarted.get("nps", "90d", ["1", "2"]),
+      new Map([["1", "1"]]),
+    );
+    assert.equal((await restarted.get("support", "90d", ["1"])).size, 0);
+    // Compacted to the one live entry
+    const lines = readFileSync(file, "utf8").trim().split("\n");
+    assert.equal(lines.length, 1);
+    assert.equal(JSON.parse(lines[0]).accountId, "1");
+  });
+
+  it("fetches accounts again once their cached signals expire", async () => {
+    mock.timers.enable({ apis: ["Date"], now: NOW });
+    const cacheStats = (
+      result: Awaited<ReturnType<typeof fetchExternalSignals>>,
+    ) =>
+      result.providers.map((p) => [p.provider, p.cache.hits, p.cache.misses]);
+
+    const first = await fetchExternalSignals(["1", "2"], 90);
+    assert.deepEqual(cacheStats(first), [
+      ["nps", 0, 2],
+      ["support", 0, 2],
+    ]);
+
+    const second = await fetchExternalSignals(["1", "2", "3"], 90);
+    assert.deepEqual(cacheStats(second), [
+      ["nps", 2, 1],
+      ["support", 2, 1],
+    ]);
+    assert.deepEqual(second.nps, { ...first.nps, 3: second.nps!["3"] });
+
+    // Support signals expire first
+    mock.timers.tick(signalCacheTtlMs("support"));
+    assert.deepEqual(
+      cacheStats(await fetchExternalSignals(["1", "2", "3"], 90)),
+      [
+        ["nps", 3, 0],
+        ["support", 0, 3],
+      ],
+    );
+    mock.timers.tick(signalCacheTtlMs("nps") - signalCacheTtlMs("support"));
+    assert.deepEqual(cacheStats(await fetchExternalSignals(["1"], 90)), [
+      ["nps", 0, 1],
+      ["support", 0, 1],
+    ]);
+  });
+});
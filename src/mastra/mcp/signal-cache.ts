@@ -0,0 +1,222 @@
+// Signal Cache
+// Provider responses per account, so repeated analyses don't fetch every
+// account from the external systems again. In memory by default, optionally
+// backed by a JSONL file so entries survive restarts
+
+import { z } from "zod";
+import { ToolError } from "./errors";
+import {
+  appendJsonLines,
+  readJsonLines,
+  replaceJsonLines,
+} from "./jsonl-store";
+
+export const SignalProviderSchema = z.enum(["nps", "support"]);
+export type SignalProvider = z.infer<typeof SignalProviderSchema>;
+
+export interface CachedSignal {
+  provider: SignalProvider;
+  accountId: string;
+  // Analysis window the value was fetched for, e.g. "90d"; "latest" for NPS,
+  // which doesn't depend on the window
+  window: string;
+  value: unknown;
+  cachedAt: string; // ISO timestamp
+  expiresAt: number; // epoch ms
+}
+
+export interface CacheInvalidation {
+  provider?: SignalProvider;
+  accountIds?: string[]; // omit for every account
+}
+
+export interface SignalCacheStore {
+  // Store name, e.g. "memory" or "file"
+  readonly kind: string;
+  // Unexpired values for the accounts that have one
+  get(
+    provider: SignalProvider,
+    window: string,
+    accountIds: string[],
+  ): Promise<Map<string, unknown>>;
+  set(entries: CachedSignal[]): Promise<void>;
+  // Returns how many entries were removed
+  invalidate(filter: CacheInvalidation): Promise<number>;
+  size(): Promise<number>;
+}
+
+const cacheKey = (provider: string, window: string, accountId: string) =>
+  `${provider}:${window}:${accountId}`;
+
+const matches = (entry: CachedSignal, filter: CacheInvalidation) =>
+  (!filter.provider || entry.provider === filter.provider) &&
+  (!filter.accountIds || filter.accountIds.includes(entry.accountId));
+
+// --- In-Memory Store ---
+export class MemorySignalCache implements SignalCacheStore {
+  readonly kind: string = "memory";
+  protected entries = new Map<string, CachedSignal>();
+
+  async get(provider: SignalProvider, window: string, accountIds: string[]) {
+    const now = Date.now();
+    const found = new Map<string, unknown>();
+    for (const accountId of accountIds) {
+      const key = cacheKey(provider, window, accountId);
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        continue;
+      }
+      found.set(accountId, entry.value);
+    }
+    return found;
+  }
+
+  async set(entries: CachedSignal[]) {
+    for (const entry of entries) {
+      this.entries.set(
+        cacheKey(entry.provider, entry.window, entry.accountId),
+        entry,
+      );
+    }
+  }
+
+  async invalidate(filter: CacheInvalidation) {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (matches(entry, filter)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async size() {
+    const now = Date.now();
+    return [...this.entries.values()].filter((e) => e.expiresAt > now).length;
+  }
+}
+
+// --- File-Backed Store ---
+// Sets and invalidations are appended to the file and replayed on startup;
+// the file is compacted to the unexpired entries each time it's loaded
+type CacheRecord =
+  | ({ op: "set" } & CachedSignal)
+  | ({ op: "invalidate"; at: string } & CacheInvalidation);
+
+export class FileSignalCache extends MemorySignalCache {
+  readonly kind = "file";
+  private loaded?: Promise<void>;
+
+  constructor(private readonly file: string) {
+    super();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const records = await readJsonLines<CacheRecord>(this.file);
+        for (const record of records) {
+          if (record.op === "set") {
+            const { op: _op, ...entry } = record;
+            await super.set([entry]);
+          } else if (record.op === "invalidate") {
+            await super.invalidate(record);
+          }
+        }
+        const now = Date.now();
+        const live = [...this.entries.values()].filter(
+          (e) => e.expiresAt > now,
+        );
+        this.entries = new Map(
+          live.map((e) => [cacheKey(e.provider, e.window, e.accountId), e]),
+        );
+        if (records.length > live.length) {
+          await replaceJsonLines(
+            this.file,
+            live.map((e): CacheRecord => ({ op: "set", ...e })),
+          );
+        }
+        console.error(
+          `[SignalCache] Loaded ${live.length} entries from ${this.file}`,
+        );
+      })();
+    }
+    return this.loaded;
+  }
+
+  async get(provider: SignalProvider, window: string, accountIds: string[]) {
+    await this.load();
+    return super.get(provider, window, accountIds);
+  }
+
+  async set(entries: CachedSignal[]) {
+    await this.load();
+    await super.set(entries);
+    await appendJsonLines(
+      this.file,
+      entries.map((e): CacheRecord => ({ op: "set", ...e })),
+    );
+  }
+
+  async invalidate(filter: CacheInvalidation) {
+    await this.load();
+    const removed = await super.invalidate(filter);
+    await appendJsonLines(this.file, [
+      { op: "invalidate", at: new Date().toISOString(), ...filter },
+    ]);
+    return removed;
+  }
+
+  async size() {
+    await this.load();
+    return super.size();
+  }
+}
+
+// --- Configuration ---
+// SIGNAL_CACHE=memory (default) | file
+// SIGNAL_CACHE_PATH=path to the JSONL file for the file store (default: data/signal-cache.jsonl)
+// SIGNAL_CACHE_NPS_TTL_MS=how long NPS scores are reused (default: 900000, 15 minutes)
+// SIGNAL_CACHE_SUPPORT_TTL_MS=how long support signals are reused (default: 300000, 5 minutes)
+// A TTL of 0 turns caching off for that provider
+let activeCache: Promise<SignalCacheStore> | undefined;
+
+async function createCache(): Promise<SignalCacheStore> {
+  const kind = process.env.SIGNAL_CACHE || "memory";
+
+  if (kind === "memory") {
+    return new MemorySignalCache();
+  }
+
+  if (kind === "file") {
+    return new FileSignalCache(
+      process.env.SIGNAL_CACHE_PATH || "data/signal-cache.jsonl",
+    );
+  }
+
+  throw new ToolError(
+    "CONFIG_ERROR",
+    `Unsupported SIGNAL_CACHE: ${kind}. Supported caches: memory, file`,
+  );
+}
+
+export function getSignalCache(): Promise<SignalCacheStore> {
+  if (!activeCache) {
+    activeCache = createCache().catch((error) => {
+      // Allow a later call to retry after a configuration fix
+      activeCache = undefined;
+      throw error;
+    });
+  }
+  return activeCache;
+}
+
+const ttlMs: Record<SignalProvider, number> = {
+  nps: Number(process.env.SIGNAL_CACHE_NPS_TTL_MS || 900_000),
+  support: Number(process.env.SIGNAL_CACHE_SUPPORT_TTL_MS || 300_000),
+};
+
+export const signalCacheTtlMs = (provider: SignalProvider) => ttlMs[provider];
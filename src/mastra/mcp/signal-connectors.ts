@@ -0,0 +1,292 @@
+// External Signal Connectors
+// compute_account_health reads NPS and support signals through these interfaces,
+// so the deterministic mocks can be swapped for real HTTP services via configuration
+
+import { z } from "zod";
+import { ToolError } from "./errors";
+import {
+  CircuitBreaker,
+  ResiliencePolicy,
+  retryWithBackoff,
+  RetryExhaustedError,
+} from "./resilience";
+import {
+  getSignalCache,
+  signalCacheTtlMs,
+  SignalProvider,
+  SignalProviderSchema,
+} from "./signal-cache";
+
+// --- Connector Interfaces ---
+// Connectors should stop work when the signal aborts (the caller has timed out)
+export interface SupportSignals {
+  openP1Tickets: number;
+  slaBreachesWindow: number;
+}
+
+export interface NpsConnector {
+  // Connector name, e.g. "mock" or "http"
+  readonly kind: string;
+  // null when the account has no NPS response
+  fetchNps(
+    accountIds: string[],
+    signal?: AbortSignal,
+  ): Promise<Record<string, number | null>>;
+}
+
+export interface SupportConnector {
+  readonly kind: string;
+  fetchSupportSignals(
+    accountIds: string[],
+    sinceIso: string,
+    signal?: AbortSignal,
+  ): Promise<Record<string, SupportSignals>>;
+}
+
+export interface SignalConnectors {
+  nps: NpsConnector;
+  support: SupportConnector;
+}
+
+// --- Configuration ---
+// SIGNAL_CONNECTOR=mock (default) | http
+// SIGNAL_SERVICE_URL=base URL for the http connector (default: http://localhost:4010, the stub server)
+// SIGNAL_SEED=fixture seed shared by the mock connector and the stub server (default: 42)
+let activeConnectors: Promise<SignalConnectors> | undefined;
+
+async function createConnectors(): Promise<SignalConnectors> {
+  const kind = process.env.SIGNAL_CONNECTOR || "mock";
+
+  if (kind === "mock") {
+    const { MockNpsConnector, MockSupportConnector } =
+      await import("./mock-signal-connectors");
+    const seed = Number(process.env.SIGNAL_SEED || 42);
+    return {
+      nps: new MockNpsConnector(seed),
+      support: new MockSupportConnector(seed),
+    };
+  }
+
+  if (kind === "http") {
+    const { HttpNpsConnector, HttpSupportConnector } =
+      await import("./http-signal-connectors");
+    const baseUrl = process.env.SIGNAL_SERVICE_URL || "http://localhost:4010";
+    return {
+      nps: new HttpNpsConnector(baseUrl),
+      support: new HttpSupportConnector(baseUrl),
+    };
+  }
+
+  throw new ToolError(
+    "CONFIG_ERROR",
+    `Unsupported SIGNAL_CONNECTOR: ${kind}. Supported connectors: mock, http`,
+  );
+}
+
+export function getSignalConnectors(): Promise<SignalConnectors> {
+  if (!activeConnectors) {
+    activeConnectors = createConnectors().catch((error) => {
+      // Allow a later call to retry after a configuration fix
+      activeConnectors = undefined;
+      throw error;
+    });
+  }
+  return activeConnectors;
+}
+
+// --- Resilient Fetching ---
+// Each provider gets its own timeout, retries and circuit breaker, and a failure
+// never fails the other provider or the tool call
+
+export const ProviderStatusSchema = z.object({
+  provider: SignalProviderSchema,
+  connector: z.string(),
+  // degraded: data arrived, but only after failed attempts
+  status: z.enum(["ok", "degraded", "failed"]),
+  attempts: z.number(), // 0 if every account came from the cache or the circuit was open
+  cache: z.object({
+    hits: z.number().int().nonnegative(), // accounts served from the cache
+    misses: z.number().int().nonnegative(), // accounts fetched from the provider
+  }),
+  durationMs: z.number(),
+  circuit: z.enum(["closed", "open", "half_open"]),
+  reason: z.string().optional(),
+});
+export type ProviderStatus = z.infer<typeof ProviderStatusSchema>;
+
+// SIGNAL_TIMEOUT_MS=per-attempt timeout (default: 1500)
+// SIGNAL_RETRIES=retries after the first attempt (default: 2)
+// SIGNAL_CIRCUIT_THRESHOLD=consecutive failed calls before the circuit opens (default: 3)
+// SIGNAL_CIRCUIT_RESET_MS=how long an open circuit fails fast (default: 30000)
+const resiliencePolicy: ResiliencePolicy = {
+  timeoutMs: Number(process.env.SIGNAL_TIMEOUT_MS || 1500),
+  retries: Number(process.env.SIGNAL_RETRIES || 2),
+  backoffMs: 100,
+  maxBackoffMs: 1000,
+};
+
+const breakers: Record<SignalProvider, CircuitBreaker> = {
+  nps: new CircuitBreaker(
+    "nps",
+    Number(process.env.SIGNAL_CIRCUIT_THRESHOLD || 3),
+    Number(process.env.SIGNAL_CIRCUIT_RESET_MS || 30_000),
+  ),
+  support: new CircuitBreaker(
+    "support",
+    Number(process.env.SIGNAL_CIRCUIT_THRESHOLD || 3),
+    Number(process.env.SIGNAL_CIRCUIT_RESET_MS || 30_000),
+  ),
+};
+
+type CallStatus = Omit<ProviderStatus, "cache">;
+
+async function callProvider<T>(
+  provider: SignalProvider,
+  connector: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+): Promise<{ data?: T; status: CallStatus }> {
+  const startedAt = Date.now();
+  const breaker = breakers[provider];
+  const status = (
+    fields: Pick<ProviderStatus, "status" | "attempts" | "reason">,
+  ): CallStatus => ({
+    provider,
+    connector,
+    ...fields,
+    durationMs: Date.now() - startedAt,
+    circuit: breaker.state,
+  });
+
+  try {
+    const outcome = await breaker.execute(() =>
+      retryWithBackoff(resiliencePolicy, fn),
+    );
+    return {
+      data: outcome.value,
+      status: status(
+        outcome.errors.length === 0
+          ? { status: "ok", attempts: outcome.attempts }
+          : {
+              status: "degraded",
+              attempts: outcome.attempts,
+              reason: `Recovered after: ${outcome.errors.join("; ")}`,
+            },
+      ),
+    };
+  } catch (error) {
+    console.error(`[signals] ${provider} unavailable: ${error}`);
+    return {
+      status: status({
+        status: "failed",
+        // A circuit-open failure never reached the provider
+        attempts:
+          error instanceof RetryExhaustedError ? error.errors.length : 0,
+        reason: error instanceof Error ? error.message : String(error),
+      }),
+    };
+  }
+}
+
+// --- Cached Fetching ---
+// Accounts with an unexpired cached value skip the provider; only the rest are
+// fetched. Failed fetches aren't cached, so the next call tries them again.
+async function fetchWithCache<T>(
+  provider: SignalProvider,
+  window: string,
+  accountIds: string[],
+  connector: string,
+  fetch: (
+    accountIds: string[],
+    signal: AbortSignal,
+  ) => Promise<Record<string, T>>,
+): Promise<{ data?: Record<string, T>; status: ProviderStatus }> {
+  const cache = await getSignalCache();
+  const ttlMs = signalCacheTtlMs(provider);
+  const cached =
+    ttlMs > 0
+      ? await cache.get(provider, window, accountIds)
+      : new Map<string, unknown>();
+  const misses = accountIds.filter((id) => !cached.has(id));
+
+  const fetched =
+    misses.length > 0
+      ? await callProvider(provider, connector, (signal) =>
+          fetch(misses, signal),
+        )
+      : undefined;
+  const data = fetched?.data;
+  if (data && ttlMs > 0) {
+    const now = Date.now();
+    await cache.set(
+      misses
+        .filter((id) => id in data)
+        .map((accountId) => ({
+          provider,
+          accountId,
+          window,
+          value: data[accountId],
+          cachedAt: new Date(now).toISOString(),
+          expiresAt: now + ttlMs,
+        })),
+    );
+  }
+
+  const cacheStats = { hits: cached.size, misses: misses.length };
+  return {
+    // Cached values still count when the fetch for the rest failed
+    data:
+      data || cached.size > 0
+        ? { ...(Object.fromEntries(cached) as Record<string, T>), ...data }
+        : undefined,
+    status: fetched
+      ? { ...fetched.status, cache: cacheStats }
+      : {
+          provider,
+          connector,
+          status: "ok",
+          attempts: 0,
+          durationMs: 0,
+          circuit: breakers[provider].state,
+          cache: cacheStats,
+        },
+  };
+}
+
+// Fetch both providers concurrently. A missing map means that provider failed
+// and nothing was cached; support signals cover the last windowDays days
+export async function fetchExternalSignals(
+  accountIds: string[],
+  windowDays: number,
+): Promise<{
+  nps?: Record<string, number | null>;
+  support?: Record<string, SupportSignals>;
+  providers: ProviderStatus[];
+}> {
+  const connectors = await getSignalConnectors();
+  const sinceIso = new Date(
+    Date.now() - windowDays * 24 * 3600 * 1000,
+  ).toISOString();
+  const [nps, support] = await Promise.all([
+    // NPS doesn't depend on the analysis window, so one entry serves every window
+    fetchWithCache(
+      "nps",
+      "latest",
+      accountIds,
+      connectors.nps.kind,
+      (ids, signal) => connectors.nps.fetchNps(ids, signal),
+    ),
+    fetchWithCache(
+      "support",
+      `${windowDays}d`,
+      accountIds,
+      connectors.support.kind,
+      (ids, signal) =>
+        connectors.support.fetchSupportSignals(ids, sinceIso, signal),
+    ),
+  ]);
+  return {
+    nps: nps.data,
+    support: support.data,
+    providers: [nps.status, support.status],
+  };
+}
@@ -0,0 +1,46 @@
+// Seeded Signal Fixtures
+// Deterministic NPS and support data shared by the mock connectors and the stub
+// server, so the same seed always produces the same health scores
+
+import type { SupportSignals } from "./signal-connectors";
+
+// mulberry32: small, fast PRNG; one stream per (seed, system, account)
+function random(seed: number, system: string, accountId: string): () => number {
+  let state = seed >>> 0;
+  for (const char of `${system}:${accountId}`) {
+    state = Math.imul(state ^ char.charCodeAt(0), 0x9e3779b1) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function npsFixture(seed: number, accountId: string): number | null {
+  const next = random(seed, "nps", accountId);
+  const userId = parseInt(accountId);
+  // Some users don't have NPS data (20% chance)
+  if (next() < 0.2) return null;
+
+  // Realistic NPS scores based on user activity patterns
+  const baseScore = 50 + (userId % 40) - 20; // Range: 30-70
+  const variation = (next() - 0.5) * 20; // ±10 variation
+  return Math.max(0, Math.min(100, Math.round(baseScore + variation)));
+}
+
+export function supportFixture(
+  seed: number,
+  accountId: string,
+): SupportSignals {
+  const next = random(seed, "support", accountId);
+  const userId = parseInt(accountId);
+  // Higher-ID users tend to have more support issues (simulating enterprise customers)
+  const riskFactor = userId > 15 ? 2 : 1;
+  return {
+    openP1Tickets: next() < 0.1 * riskFactor ? Math.ceil(next() * 3) : 0,
+    slaBreachesWindow: next() < 0.15 * riskFactor ? Math.ceil(next() * 2) : 0,
+  };
+}
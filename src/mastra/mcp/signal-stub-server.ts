@@ -0,0 +1,120 @@
+// Signal Stub Server
+// Local stand-in for the external NPS and support APIs, serving the seeded
+// fixtures so SIGNAL_CONNECTOR=http can be exercised offline
+//
+//   GET /v1/nps?accountIds=1,2,3                  -> { "scores": { "1": 42, "2": null } }
+//   GET /v1/support/signals?accountIds=1,2&since= -> { "signals": { "1": { "openP1Tickets": 0, "slaBreachesWindow": 1 } } }
+//   GET /health
+//
+// Fault injection, for exercising connector timeouts, retries and circuit breaking:
+//   SIGNAL_STUB_LATENCY_MS=delay before every API response
+//   SIGNAL_STUB_FAILURE_RATE=fraction of API requests answered with 503 (0-1)
+//   SIGNAL_STUB_FAIL=nps | support  (that endpoint always answers 503)
+
+import http from "http";
+import { URL } from "url";
+import { npsFixture, supportFixture } from "./signal-fixtures.js";
+
+// --- Server Configuration ---
+const PORT = parseInt(process.env.SIGNAL_STUB_PORT || "4010");
+const SEED = Number(process.env.SIGNAL_SEED || 42);
+const LATENCY_MS = Number(process.env.SIGNAL_STUB_LATENCY_MS || 0);
+const FAILURE_RATE = Number(process.env.SIGNAL_STUB_FAILURE_RATE || 0);
+const ALWAYS_FAIL = process.env.SIGNAL_STUB_FAIL;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function accountIdsFrom(url: URL): string[] | undefined {
+  const raw = url.searchParams.get("accountIds");
+  if (!raw) return undefined;
+  return raw
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// --- HTTP Request Handler ---
+async function handleRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+) {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  console.log(`[Stub] ${req.method} ${url.pathname}${url.search}`);
+
+  if (req.method !== "GET") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (url.pathname === "/health") {
+    sendJson(res, 200, { status: "healthy", seed: SEED });
+    return;
+  }
+
+  if (url.pathname === "/v1/nps" || url.pathname === "/v1/support/signals") {
+    const accountIds = accountIdsFrom(url);
+    if (!accountIds) {
+      sendJson(res, 400, {
+        error: "Missing accountIds",
+        message: "Pass a comma-separated accountIds query parameter",
+      });
+      return;
+    }
+
+    const provider = url.pathname === "/v1/nps" ? "nps" : "support";
+    if (LATENCY_MS > 0) {
+      await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+    }
+    if (ALWAYS_FAIL === provider || Math.random() < FAILURE_RATE) {
+      sendJson(res, 503, { error: "Service unavailable (injected fault)" });
+      return;
+    }
+
+    if (provider === "nps") {
+      sendJson(res, 200, {
+        scores: Object.fromEntries(
+          accountIds.map((id) => [id, npsFixture(SEED, id)]),
+        ),
+      });
+    } else {
+      sendJson(res, 200, {
+        signals: Object.fromEntries(
+          accountIds.map((id) => [id, supportFixture(SEED, id)]),
+        ),
+      });
+    }
+    return;
+  }
+
+  sendJson(res, 404, {
+    error: "Not found",
+    availableEndpoints: ["/health", "/v1/nps", "/v1/support/signals"],
+  });
+}
+
+// --- Start Server ---
+const stubServer = http.createServer(handleRequest);
+
+stubServer.listen(PORT, () => {
+  console.log(`🧪 Signal stub server running on http://localhost:${PORT}`);
+  console.log(`🎲 Fixture seed: ${SEED} (set SIGNAL_SEED to change)`);
+  if (LATENCY_MS > 0 || FAILURE_RATE > 0 || ALWAYS_FAIL) {
+    console.log(
+      `💥 Fault injection: latency ${LATENCY_MS}ms, failure rate ${FAILURE_RATE}, always failing: ${ALWAYS_FAIL || "none"}`,
+    );
+  }
+  console.log(
+    `🔌 Point the MCP server at it with SIGNAL_CONNECTOR=http SIGNAL_SERVICE_URL=http://localhost:${PORT}`,
+  );
+});
+
+// --- Graceful Shutdown ---
+const shutdown = () => {
+  console.log("\n🛑 Shutting down signal stub server...");
+  stubServer.close(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
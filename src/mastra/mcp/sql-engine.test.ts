@@ -0,0 +1,192 @@
+// SQL engine tests: joins, aggregates and query errors, and comparisons that
+// follow SQLite's rules, so a query gives the same rows as a real database
+
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { getCredentialStore } from "./credential-store";
+import { MemoryDataSource } from "./memory-data-source";
+import { parseSelect, QueryParams, SqlError } from "./sql-parser";
+import { runSqlTool } from "../tools/sql-tool";
+import type { ToolExecuteOptions } from "./utils";
+
+process.env.AUDIT_LOG_PATH = path.join(tmpdir(), "sql-engine-test-audit.jsonl");
+
+const dataSource = new MemoryDataSource();
+
+const query = async (sql: string) =>
+  (await dataSource.query(parseSelect(sql))).rows;
+
+// Calls run_sql the way the MCP server does, as the analyst (user role)
+async function runSql(sql: string, params?: QueryParams) {
+  const context = runSqlTool.inputSchema!.parse({ sql, params });
+  const execute = runSqlTool.execute as unknown as (
+    params: { context: typeof context },
+    options: ToolExecuteOptions,
+  ) => Promise<{ rows: Record<string, unknown>[] }>;
+  const authInfo = getCredentialStore().authenticate("api_key_user_456")!;
+  return execute({ context }, { extra: { authInfo } } as ToolExecuteOptions);
+}
+
+describe("comparisons", () => {
+  it("compares numbers with numeric text as numbers", async () => {
+    assert.deepEqual(await query("SELECT id FROM orders WHERE total > '100'"), [
+      { id: 3 },
+    ]);
+    assert.deepEqual(await query("SELECT id FROM orders WHERE id = ' 2 '"), [
+      { id: 2 },
+    ]);
+  });
+
+  it("sorts numbers before non-numeric text", async () => {
+    assert.deepEqual(await query("SELECT id FROM orders WHERE total < 'abc'"), [
+      { id: 1 },
+      { id: 2 },
+      { id: 3 },
+    ]);
+    assert.deepEqual(
+      await query("SELECT id FROM orders WHERE total > '1e9x'"),
+      [],
+    );
+  });
+
+  it("compares text by code point", async () => {
+    assert.deepEqual(
+      await query(
+        "SELECT 'a' < 'b' AS lt, 'ab' > 'a' AS gt FROM users LIMIT 1",
+      ),
+      [{ lt: true, gt: true }],
+    );
+    assert.deepEqual(
+      await query("SELECT '\uFFFF' < '\u{1F600}' AS astral FROM users LIMIT 1"),
+      [{ astral: true }],
+    );
+  });
+
+  it("binds positional string params as numbers against numbers", async () => {
+    const result = await runSql(
+      "SELECT id, total FROM orders WHERE total > ? LIMIT 20",
+      ["100"],
+    );
+    assert.deepEqual(result.rows, [{ id: 3, total: 120.5 }]);
+  });
+
+  it("binds named string params as numbers against numbers", async () => {
+    const result = await runSql(
+      "SELECT id, total FROM orders WHERE total > :min AND user_id = :user",
+      { min: "100", user: "1" },
+    );
+    assert.deepEqual(result.rows, [{ id: 3, total: 120.5 }]);
+  });
+});
+
+describe("joins", () => {
+  it("pairs each order with its user", async () => {
+    assert.deepEqual(
+      await query(
+        "SELECT u.name, o.total FROM users u JOIN orders o ON o.user_id = u.id ORDER BY o.id",
+      ),
+      [
+        { name: "Ava", total: 59.99 },
+        { name: "Noah", total: 19 },
+        { name: "Ava", total: 120.5 },
+      ],
+    );
+  });
+
+  it("keeps users without orders in a LEFT JOIN", async () => {
+    assert.deepEqual(
+      await query(
+        "SELECT u.name, o.id FROM users u LEFT JOIN orders o ON o.user_id = u.id ORDER BY u.id, o.id",
+      ),
+      [
+        { name: "Ava", id: 1 },
+        { name: "Ava", id: 3 },
+        { name: "Noah", id: 2 },
+        { name: "Mia", id: null },
+      ],
+    );
+  });
+});
+
+describe("aggregates", () => {
+  it("computes every aggregate per group", async () => {
+    assert.deepEqual(
+      await query(
+        "SELECT user_id, COUNT(*) AS n, SUM(total) AS revenue, AVG(total), MIN(created), MAX(total) FROM orders GROUP BY user_id ORDER BY user_id",
+      ),
+      [
+        {
+          user_id: 1,
+          n: 2,
+          revenue: 180.49,
+          "avg(total)": 90.245,
+          "min(created)": "2025-05-01",
+          "max(total)": 120.5,
+        },
+        {
+          user_id: 2,
+          n: 1,
+          revenue: 19,
+          "avg(total)": 19,
+          "min(created)": "2025-05-03",
+          "max(total)": 19,
+        },
+      ],
+    );
+  });
+
+  it("returns one row over no rows, with NULL sums", async () => {
+    assert.deepEqual(
+      await query("SELECT COUNT(*), SUM(total) FROM orders WHERE total > 1000"),
+      [{ "count(*)": 0, "sum(total)": null }],
+    );
+  });
+
+  it("filters groups with HAVING and orders by an alias", async () => {
+    assert.deepEqual(
+      await query(
+        "SELECT u.city, COUNT(o.id) AS orders FROM users u LEFT JOIN orders o ON o.user_id = u.id GROUP BY u.city HAVING COUNT(o.id) > 0 ORDER BY orders DESC",
+      ),
+      [
+        { city: "Waterloo", orders: 2 },
+        { city: "Kitchener", orders: 1 },
+      ],
+    );
+  });
+});
+
+describe("query errors", () => {
+  const rejects = (sql: string, message: string) =>
+    assert.rejects(
+      () => query(sql),
+      (error) => error instanceof SqlError && error.message.startsWith(message),
+    );
+
+  it("rejects unknown tables and ambiguous columns", async () => {
+    await rejects(
+      "SELECT id FROM nope",
+      'Unknown table "nope". Available tables: users, orders',
+    );
+    await rejects(
+      "SELECT id FROM users u JOIN orders o ON o.user_id = u.id",
+      'Column "id" is ambiguous; qualify it as u.id or o.id',
+    );
+  });
+
+  it("rejects ungrouped columns and aggregates in WHERE", async () => {
+    await rejects(
+      "SELECT name, COUNT(*) FROM users",
+      'Column "name" in SELECT must appear in GROUP BY or be used in an aggregate',
+    );
+    await rejects(
+      "SELECT COUNT(*) FROM users WHERE COUNT(*) > 1",
+      "Aggregate functions are not allowed in WHERE",
+    );
+    await rejects(
+      "SELECT name FROM users ORDER BY 2",
+      "ORDER BY position 2 is out of range (1-1)",
+    );
+  });
+});
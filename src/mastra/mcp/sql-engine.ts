@@ -0,0 +1,808 @@
+// In-memory SQL evaluator for the run_sql tool
+// Executes parsed SELECT statements over plain row arrays
+
+import {
+  containsAggregate,
+  Expr,
+  formatExpr,
+  LiteralValue,
+  mapExpr,
+  SelectItem,
+  SelectStatement,
+  SqlError,
+  walkExpr,
+} from "./sql-parser";
+
+export type Row = Record<string, unknown>;
+
+export interface TableData {
+  columns: string[];
+  rows: Row[];
+}
+
+export type Catalog = Record<string, TableData>;
+
+export interface QueryResult {
+  columns: string[];
+  rows: Row[];
+  // Source columns ("table.column") each output column is derived from
+  lineage: Record<string, string[]>;
+  // More rows remain in the result window after this page
+  hasMore: boolean;
+}
+
+export interface ExecuteOptions {
+  // Hard cap applied after the statement's own LIMIT/OFFSET
+  maxRows?: number;
+  // Rows to skip within the statement's result window (cursor pagination)
+  skipRows?: number;
+  // Columns ("table.column") removed from scope entirely, as if they didn't exist
+  hiddenColumns?: string[];
+  // Per-table predicates applied to base rows before joins, filters and limits
+  rowFilters?: Record<string, Expr>;
+  // Columns ("table.column") whose values are redacted in results: they can be
+  // selected, but not used to choose, group or order rows
+  restrictedColumns?: string[];
+}
+
+// Raised when a query would let a redacted column's exact value decide the result,
+// e.g. WHERE name LIKE 'Av%' recovering a masked name one character at a time
+export class RestrictedColumnError extends SqlError {
+  constructor(
+    public readonly column: string,
+    public readonly clause: string,
+  ) {
+    super(
+      `Column ${column} is redacted for your role and can only be selected, not used in ${clause}`,
+    );
+    this.name = "RestrictedColumnError";
+  }
+}
+
+// --- Scope: which columns each table alias exposes ---
+class Scope {
+  private readonly aliases = new Map<string, string[]>();
+  private readonly tables = new Map<string, string>();
+
+  add(alias: string, table: string, columns: string[]): void {
+    if (this.aliases.has(alias)) {
+      throw new SqlError(
+        `Table alias "${alias}" is used more than once; give each table a unique alias`,
+      );
+    }
+    this.aliases.set(alias, columns);
+    this.tables.set(alias, table);
+  }
+
+  // Map a resolved "alias.column" key back to "table.column"
+  source(key: string): string {
+    const [alias, column] = key.split(".");
+    return `${this.tables.get(alias)}.${column}`;
+  }
+
+  // True if an unqualified column name exists on any table in scope
+  has(name: string): boolean {
+    return this.entries().some(([, columns]) => columns.includes(name));
+  }
+
+  entries(): [string, string[]][] {
+    return [...this.aliases.entries()];
+  }
+
+  columnsOf(alias: string): string[] {
+    const columns = this.aliases.get(alias);
+    if (!columns) {
+      throw new SqlError(
+        `Unknown table or alias "${alias}". In scope: ${[...this.aliases.keys()].join(", ")}`,
+      );
+    }
+    return columns;
+  }
+
+  // Resolve a column reference to its key in a joined row ("alias.column")
+  resolve(table: string | undefined, name: string): string {
+    if (table !== undefined) {
+      const columns = this.columnsOf(table);
+      if (!columns.includes(name)) {
+        throw new SqlError(
+          `Unknown column "${table}.${name}". Columns on ${table}: ${columns.join(", ")}`,
+        );
+      }
+      return `${table}.${name}`;
+    }
+
+    const owners = this.entries()
+      .filter(([, columns]) => columns.includes(name))
+      .map(([alias]) => alias);
+    if (owners.length === 0) {
+      const available = this.entries()
+        .map(([alias, columns]) => `${alias}(${columns.join(", ")})`)
+        .join("; ");
+      throw new SqlError(`Unknown column "${name}". Available: ${available}`);
+    }
+    if (owners.length > 1) {
+      throw new SqlError(
+        `Column "${name}" is ambiguous; qualify it as ${owners.map((o) => `${o}.${name}`).join(" or ")}`,
+      );
+    }
+    return `${owners[0]}.${name}`;
+  }
+}
+
+// --- Value semantics ---
+// Text SQLite's numeric affinity turns into a number, e.g. " 100", "-1.5e3"
+const NUMERIC_TEXT = /^\s*[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+export const isNumericText = (value: string) => NUMERIC_TEXT.test(value);
+
+// Code point order, like SQLite's BINARY collation over UTF-8; plain string
+// comparison orders by UTF-16 code units, which differs around surrogate pairs
+function compareText(a: string, b: string): number {
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    const x = a.codePointAt(i)!;
+    const y = b.codePointAt(j)!;
+    if (x !== y) return x - y;
+    i += x > 0xffff ? 2 : 1;
+    j += y > 0xffff ? 2 : 1;
+  }
+  return a.length - i - (b.length - j);
+}
+
+// SQLite's rules: booleans are 1 and 0; a number compared with numeric text
+// compares as numbers (as a REAL column does with a bound "100"); otherwise
+// numbers sort before text
+function compareValues(a: unknown, b: unknown): number {
+  let left = typeof a === "boolean" ? Number(a) : a;
+  let right = typeof b === "boolean" ? Number(b) : b;
+  if (typeof left === "number" && typeof right === "string") {
+    if (isNumericText(right)) right = Number(right);
+  } else if (typeof left === "string" && typeof right === "number") {
+    if (isNumericText(left)) left = Number(left);
+  }
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left === "number") return -1;
+  if (typeof right === "number") return 1;
+  return compareText(String(left), String(right));
+}
+
+// NULLs sort first ascending, matching SQLite
+function compareForSort(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return -1;
+  if (b == null) return 1;
+  return compareValues(a, b);
+}
+
+function toNumber(value: unknown, context: string): number {
+  if (typeof value === "number") return value;
+  if (
+    typeof value === "string" &&
+    value.trim() !== "" &&
+    !isNaN(Number(value))
+  ) {
+    return Number(value);
+  }
+  throw new SqlError(
+    `${context} expects a number, got ${JSON.stringify(value)}`,
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  return (
+    value !== null && value !== undefined && value !== false && value !== 0
+  );
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((ch) => {
+      if (ch === "%") return ".*";
+      if (ch === "_") return ".";
+      return ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "is");
+}
+
+// --- Expression evaluation ---
+interface EvalContext {
+  scope: Scope;
+  row: Row;
+  // Present when evaluating grouped output; aggregates fold over these rows
+  group?: Row[];
+}
+
+function evaluate(expr: Expr, ctx: EvalContext): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+
+    case "column":
+      return ctx.row[ctx.scope.resolve(expr.table, expr.name)] ?? null;
+
+    case "unary": {
+      const value = evaluate(expr.operand, ctx);
+      if (value == null) return null;
+      if (expr.op === "not") return !isTruthy(value);
+      return -toNumber(value, "Unary minus");
+    }
+
+    case "binary":
+      return evaluateBinary(expr, ctx);
+
+    case "aggregate":
+      if (!ctx.group) {
+        throw new SqlError(`Aggregate ${formatExpr(expr)} is not allowed here`);
+      }
+      return evaluateAggregate(expr, ctx.group, ctx.scope);
+
+    case "in": {
+      const value = evaluate(expr.expr, ctx);
+      if (value == null) return null;
+      const candidates = expr.values.map((candidate) =>
+        evaluate(candidate, ctx),
+      );
+      const found = candidates.some(
+        (candidate) =>
+          candidate != null && compareValues(value, candidate) === 0,
+      );
+      // Not found in a list with a NULL is unknown, as in SQL
+      if (!found && candidates.some((candidate) => candidate == null)) {
+        return null;
+      }
+      return expr.negated ? !found : found;
+    }
+
+    case "between": {
+      const value = evaluate(expr.expr, ctx);
+      const low = evaluate(expr.low, ctx);
+      const high = evaluate(expr.high, ctx);
+      if (value == null || low == null || high == null) return null;
+      const inside =
+        compareValues(value, low) >= 0 && compareValues(value, high) <= 0;
+      return expr.negated ? !inside : inside;
+    }
+
+    case "like": {
+      const value = evaluate(expr.expr, ctx);
+      const pattern = evaluate(expr.pattern, ctx);
+      if (value == null || pattern == null) return null;
+      const matches = likeToRegExp(String(pattern)).test(String(value));
+      return expr.negated ? !matches : matches;
+    }
+
+    case "isNull": {
+      const isNull = evaluate(expr.expr, ctx) == null;
+      return expr.negated ? !isNull : isNull;
+    }
+
+    case "param":
+      throw new SqlError(
+        `Parameter ${formatExpr(expr)} has no bound value`,
+        expr.position,
+      );
+  }
+}
+
+function evaluateBinary(
+  expr: Extract<Expr, { kind: "binary" }>,
+  ctx: EvalContext,
+): unknown {
+  // Three-valued logic for AND/OR
+  if (expr.op === "and" || expr.op === "or") {
+    const left = evaluate(expr.left, ctx);
+    const right = evaluate(expr.right, ctx);
+    if (expr.op === "and") {
+      if (left != null && !isTruthy(left)) return false;
+      if (right != null && !isTruthy(right)) return false;
+      return left == null || right == null ? null : true;
+    }
+    if (left != null && isTruthy(left)) return true;
+    if (right != null && isTruthy(right)) return true;
+    return left == null || right == null ? null : false;
+  }
+
+  const left = evaluate(expr.left, ctx);
+  const right = evaluate(expr.right, ctx);
+  if (left == null || right == null) return null;
+
+  switch (expr.op) {
+    case "=":
+      return compareValues(left, right) === 0;
+    case "!=":
+      return compareValues(left, right) !== 0;
+    case "<":
+      return compareValues(left, right) < 0;
+    case "<=":
+      return compareValues(left, right) <= 0;
+    case ">":
+      return compareValues(left, right) > 0;
+    case ">=":
+      return compareValues(left, right) >= 0;
+  }
+
+  const context = `Operator "${expr.op}"`;
+  const l = toNumber(left, context);
+  const r = toNumber(right, context);
+  switch (expr.op) {
+    case "+":
+      return l + r;
+    case "-":
+      return l - r;
+    case "*":
+      return l * r;
+    case "/":
+      return r === 0 ? null : l / r;
+    case "%":
+      return r === 0 ? null : l % r;
+  }
+}
+
+function evaluateAggregate(
+  expr: Extract<Expr, { kind: "aggregate" }>,
+  group: Row[],
+  scope: Scope,
+): unknown {
+  if (expr.arg === "*") return group.length;
+
+  const arg = expr.arg;
+  let values = group
+    .map((row) => evaluate(arg, { scope, row }))
+    .filter((v) => v != null);
+  if (expr.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((v) => {
+      const key = JSON.stringify(v);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (expr.fn) {
+    case "count":
+      return values.length;
+    case "sum":
+    case "avg": {
+      if (values.length === 0) return null;
+      const total = values.reduce<number>(
+        (sum, v) => sum + toNumber(v, expr.fn.toUpperCase()),
+        0,
+      );
+      return expr.fn === "sum" ? total : total / values.length;
+    }
+    case "min":
+    case "max": {
+      if (values.length === 0) return null;
+      const sign = expr.fn === "min" ? 1 : -1;
+      return values.reduce((best, v) =>
+        sign * compareValues(v, best) < 0 ? v : best,
+      );
+    }
+  }
+}
+
+// --- Validation ---
+function checkNoAggregate(expr: Expr | undefined, clause: string): void {
+  if (expr && containsAggregate(expr)) {
+    throw new SqlError(`Aggregate functions are not allowed in ${clause}`);
+  }
+}
+
+function checkColumns(expr: Expr, scope: Scope): void {
+  walkExpr(expr, (node) => {
+    if (node.kind === "column") scope.resolve(node.table, node.name);
+    if (node.kind === "aggregate" && node.arg !== "*") {
+      checkNoAggregate(node.arg, "another aggregate");
+    }
+  });
+}
+
+// Grouping keys: resolved column keys plus the text of non-column expressions
+function groupKeysOf(groupBy: Expr[], scope: Scope): Set<string> {
+  return new Set(
+    groupBy.map((g) =>
+      g.kind === "column" ? scope.resolve(g.table, g.name) : formatExpr(g),
+    ),
+  );
+}
+
+// Columns referenced outside aggregates must be grouped
+function checkGrouped(
+  expr: Expr,
+  groupKeys: Set<string>,
+  scope: Scope,
+  clause: string,
+): void {
+  if (expr.kind === "aggregate") return;
+  if (expr.kind === "column") {
+    if (!groupKeys.has(scope.resolve(expr.table, expr.name))) {
+      throw new SqlError(
+        `Column "${formatExpr(expr)}" in ${clause} must appear in GROUP BY or be used in an aggregate`,
+      );
+    }
+    return;
+  }
+  if (groupKeys.has(formatExpr(expr))) return;
+  for (const child of directChildren(expr)) {
+    checkGrouped(child, groupKeys, scope, clause);
+  }
+}
+
+function directChildren(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "binary":
+      return [expr.left, expr.right];
+    case "unary":
+      return [expr.operand];
+    case "in":
+      return [expr.expr, ...expr.values];
+    case "between":
+      return [expr.expr, expr.low, expr.high];
+    case "like":
+      return [expr.expr, expr.pattern];
+    case "isNull":
+      return [expr.expr];
+    default:
+      return [];
+  }
+}
+
+// --- Projection ---
+interface OutputColumn {
+  name: string;
+  expr: Expr;
+}
+
+function expandColumns(items: SelectItem[], scope: Scope): OutputColumn[] {
+  const output: OutputColumn[] = [];
+  const multiTable = scope.entries().length > 1;
+
+  for (const item of items) {
+    if (item.kind === "star") {
+      const aliases = item.table
+        ? [[item.table, scope.columnsOf(item.table)] as [string, string[]]]
+        : scope.entries();
+      for (const [alias, columns] of aliases) {
+        for (const column of columns) {
+          output.push({
+            name: column,
+            expr: { kind: "column", table: alias, name: column },
+          });
+        }
+      }
+      continue;
+    }
+    const name =
+      item.alias ??
+      (item.expr.kind === "column" ? item.expr.name : formatExpr(item.expr));
+    output.push({ name, expr: item.expr });
+  }
+
+  // Disambiguate duplicate output names (e.g. users.id and orders.id under *)
+  const counts = new Map<string, number>();
+  output.forEach((c) => counts.set(c.name, (counts.get(c.name) ?? 0) + 1));
+  const qualified = output.map((c) =>
+    (counts.get(c.name) ?? 0) > 1 && multiTable && c.expr.kind === "column"
+      ? { ...c, name: formatExpr(c.expr) }
+      : c,
+  );
+
+  // Any that still collide (e.g. SELECT id, id) get a suffix: id, id_1
+  const taken = new Set(qualified.map((c) => c.name));
+  const used = new Set<string>();
+  return qualified.map((c) => {
+    let name = c.name;
+    for (let n = 1; used.has(name); n++) {
+      const candidate = `${c.name}_${n}`;
+      if (!taken.has(candidate) && !used.has(candidate)) name = candidate;
+    }
+    used.add(name);
+    return name === c.name ? c : { ...c, name };
+  });
+}
+
+// HAVING may name a SELECT alias (HAVING spend > 100); columns of the
+// queried tables take precedence, as in SQLite
+function resolveAliases(expr: Expr, items: SelectItem[], scope: Scope): Expr {
+  const aliases = new Map<string, Expr>();
+  for (const item of items) {
+    if (item.kind === "expr" && item.alias !== undefined) {
+      aliases.set(item.alias, item.expr);
+    }
+  }
+  return mapExpr(expr, (node) =>
+    node.kind === "column" &&
+    node.table === undefined &&
+    aliases.has(node.name) &&
+    !scope.has(node.name)
+      ? aliases.get(node.name)!
+      : node,
+  );
+}
+
+// --- Execution ---
+
+// Filter one table's rows by a predicate over its own columns (qualified by table name)
+export function filterTableRows(
+  table: string,
+  data: TableData,
+  predicate: Expr,
+): Row[] {
+  const scope = new Scope();
+  scope.add(table, table, data.columns);
+  checkColumns(predicate, scope);
+  checkNoAggregate(predicate, "row filters");
+  return data.rows.filter((row) => {
+    const keyed = Object.fromEntries(
+      data.columns.map((c) => [`${table}.${c}`, row[c] ?? null]),
+    );
+    return isTruthy(evaluate(predicate, { scope, row: keyed }));
+  });
+}
+
+export function executeSelect(
+  statement: SelectStatement,
+  catalog: Catalog,
+  options: ExecuteOptions = {},
+): QueryResult {
+  const available = Object.keys(catalog);
+  const hidden = new Set(options.hiddenColumns ?? []);
+  const lookup = (name: string): TableData => {
+    const table = catalog[name];
+    if (!table) {
+      throw new SqlError(
+        `Unknown table "${name}". Available tables: ${available.join(", ")}`,
+      );
+    }
+    const filter = options.rowFilters?.[name];
+    return {
+      columns: table.columns.filter((c) => !hidden.has(`${name}.${c}`)),
+      rows: filter ? filterTableRows(name, table, filter) : table.rows,
+    };
+  };
+
+  // Build scope from FROM + JOINs
+  const scope = new Scope();
+  const base = lookup(statement.from.name);
+  scope.add(statement.from.alias, statement.from.name, base.columns);
+  for (const join of statement.joins) {
+    scope.add(
+      join.table.alias,
+      join.table.name,
+      lookup(join.table.name).columns,
+    );
+  }
+
+  // Validate every column reference up front so errors don't depend on data
+  const columns = expandColumns(statement.columns, scope);
+  columns.forEach((c) => checkColumns(c.expr, scope));
+  statement.joins.forEach((j) => {
+    checkColumns(j.on, scope);
+    checkNoAggregate(j.on, "JOIN ... ON");
+  });
+  if (statement.where) {
+    checkColumns(statement.where, scope);
+    checkNoAggregate(statement.where, "WHERE (use HAVING)");
+  }
+  statement.groupBy.forEach((g) => {
+    checkColumns(g, scope);
+    checkNoAggregate(g, "GROUP BY");
+  });
+  const having =
+    statement.having &&
+    resolveAliases(statement.having, statement.columns, scope);
+  if (having) checkColumns(having, scope);
+
+  const outputNames = new Set(columns.map((c) => c.name));
+  const orderExprs = statement.orderBy.map((o) => {
+    // ORDER BY may name an output column by alias or 1-based position
+    if (o.expr.kind === "literal" && typeof o.expr.value === "number") {
+      const index = o.expr.value - 1;
+      if (!Number.isInteger(index) || index < 0 || index >= columns.length) {
+        throw new SqlError(
+          `ORDER BY position ${o.expr.value} is out of range (1-${columns.length})`,
+        );
+      }
+      return { ...o, output: columns[index].name };
+    }
+    if (
+      o.expr.kind === "column" &&
+      o.expr.table === undefined &&
+      outputNames.has(o.expr.name)
+    ) {
+      return { ...o, output: o.expr.name };
+    }
+    checkColumns(o.expr, scope);
+    return { ...o, output: undefined };
+  });
+
+  const restricted = new Set(options.restrictedColumns ?? []);
+  if (restricted.size > 0) {
+    const outputExpr = (name: string) =>
+      columns.find((c) => c.name === name)!.expr;
+    const clauses: [string, Expr[]][] = [
+      ["JOIN ... ON", statement.joins.map((j) => j.on)],
+      ["WHERE", statement.where ? [statement.where] : []],
+      ["GROUP BY", statement.groupBy],
+      ["HAVING", having ? [having] : []],
+      [
+        "ORDER BY",
+        orderExprs.map((o) =>
+          o.output !== undefined ? outputExpr(o.output) : o.expr,
+        ),
+      ],
+      ["SELECT DISTINCT", statement.distinct ? columns.map((c) => c.expr) : []],
+    ];
+    for (const [clause, exprs] of clauses) {
+      for (const expr of exprs) {
+        const column = sourceColumns(expr, scope).find((s) =>
+          restricted.has(s),
+        );
+        if (column) throw new RestrictedColumnError(column, clause);
+      }
+    }
+  }
+
+  // Nested-loop joins over "alias.column" keyed rows
+  const prefix = (alias: string, row: Row, cols: string[]): Row =>
+    Object.fromEntries(cols.map((c) => [`${alias}.${c}`, row[c] ?? null]));
+
+  let rows: Row[] = base.rows.map((r) =>
+    prefix(statement.from.alias, r, base.columns),
+  );
+  for (const join of statement.joins) {
+    const table = lookup(join.table.name);
+    const nullRow = prefix(join.table.alias, {}, table.columns);
+    const joined: Row[] = [];
+    for (const left of rows) {
+      let matched = false;
+      for (const right of table.rows) {
+        const candidate = {
+          ...left,
+          ...prefix(join.table.alias, right, table.columns),
+        };
+        if (isTruthy(evaluate(join.on, { scope, row: candidate }))) {
+          joined.push(candidate);
+          matched = true;
+        }
+      }
+      if (!matched && join.type === "left") {
+        joined.push({ ...left, ...nullRow });
+      }
+    }
+    rows = joined;
+  }
+
+  if (statement.where) {
+    const where = statement.where;
+    rows = rows.filter((row) => isTruthy(evaluate(where, { scope, row })));
+  }
+
+  // Grouping applies when GROUP BY is present or any aggregate is used
+  const grouped =
+    statement.groupBy.length > 0 ||
+    columns.some((c) => containsAggregate(c.expr)) ||
+    having !== undefined ||
+    orderExprs.some((o) => !o.output && containsAggregate(o.expr));
+
+  let contexts: EvalContext[];
+  if (grouped) {
+    const groupKeys = groupKeysOf(statement.groupBy, scope);
+    columns.forEach((c) => checkGrouped(c.expr, groupKeys, scope, "SELECT"));
+    if (having) checkGrouped(having, groupKeys, scope, "HAVING");
+    orderExprs
+      .filter((o) => !o.output)
+      .forEach((o) => checkGrouped(o.expr, groupKeys, scope, "ORDER BY"));
+
+    const groups = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = JSON.stringify(
+        statement.groupBy.map((g) => evaluate(g, { scope, row })),
+      );
+      const bucket = groups.get(key);
+      if (bucket) bucket.push(row);
+      else groups.set(key, [row]);
+    }
+    // Aggregates without GROUP BY always produce one row, even over no input
+    if (groups.size === 0 && statement.groupBy.length === 0) {
+      groups.set("[]", []);
+    }
+
+    contexts = [...groups.values()].map((group) => ({
+      scope,
+      row: group[0] ?? {},
+      group,
+    }));
+    if (having) {
+      contexts = contexts.filter((ctx) => isTruthy(evaluate(having, ctx)));
+    }
+  } else {
+    contexts = rows.map((row) => ({ scope, row }));
+  }
+
+  let results = contexts.map((ctx) => ({
+    ctx,
+    output: Object.fromEntries(
+      columns.map((c) => [c.name, normalize(evaluate(c.expr, ctx))]),
+    ) as Row,
+  }));
+
+  if (statement.distinct) {
+    const seen = new Set<string>();
+    results = results.filter(({ output }) => {
+      const key = JSON.stringify(columns.map((c) => output[c.name]));
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (orderExprs.length > 0) {
+    const keyed = results.map((r) => ({
+      ...r,
+      keys: orderExprs.map((o) =>
+        o.output !== undefined ? r.output[o.output] : evaluate(o.expr, r.ctx),
+      ),
+    }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orderExprs.length; i++) {
+        const cmp = compareForSort(a.keys[i], b.keys[i]);
+        if (cmp !== 0) return orderExprs[i].direction === "desc" ? -cmp : cmp;
+      }
+      return 0;
+    });
+    results = keyed;
+  }
+
+  // The statement's own LIMIT/OFFSET define the result window; pagination
+  // (skipRows) and the row cap (maxRows) page within that window
+  const windowStart = statement.offset ?? 0;
+  const windowEnd = Math.min(
+    results.length,
+    statement.limit !== undefined ? windowStart + statement.limit : Infinity,
+  );
+  const pageStart = Math.min(windowStart + (options.skipRows ?? 0), windowEnd);
+  const pageEnd =
+    options.maxRows !== undefined
+      ? Math.min(windowEnd, pageStart + options.maxRows)
+      : windowEnd;
+
+  return {
+    columns: columns.map((c) => c.name),
+    rows: results.slice(pageStart, pageEnd).map((r) => r.output),
+    hasMore: pageEnd < windowEnd,
+    lineage: Object.fromEntries(
+      columns.map((c) => [c.name, sourceColumns(c.expr, scope)]),
+    ),
+  };
+}
+
+// COUNT only reveals how many values exist, so its argument isn't lineage
+function sourceColumns(expr: Expr, scope: Scope): string[] {
+  const sources = new Set<string>();
+  const visit = (node: Expr) => {
+    if (node.kind === "column") {
+      sources.add(scope.source(scope.resolve(node.table, node.name)));
+    } else if (node.kind === "aggregate") {
+      if (node.fn !== "count" && node.arg !== "*") visit(node.arg);
+    } else {
+      directChildren(node).forEach(visit);
+    }
+  };
+  visit(expr);
+  return [...sources];
+}
+
+// Round away binary floating point noise from SUM/AVG (e.g. 180.49000000000001)
+function normalize(value: unknown): unknown {
+  if (typeof value === "number" && !Number.isInteger(value)) {
+    return Math.round(value * 1e10) / 1e10;
+  }
+  return value as LiteralValue;
+}
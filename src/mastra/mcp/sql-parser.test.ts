@@ -0,0 +1,225 @@
+// SQL parser tests: what the read-only dialect accepts and rejects, and how
+// query parameters are bound
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  bindParameters,
+  formatExpr,
+  parseSelect,
+  QueryParams,
+  SqlError,
+} from "./sql-parser";
+
+// The WHERE clause after binding, as SQL text
+const boundWhere = (sql: string, params?: QueryParams) =>
+  formatExpr(bindParameters(parseSelect(sql), params).where!);
+
+const rejectsBinding = (
+  sql: string,
+  params: QueryParams | undefined,
+  message: RegExp,
+) =>
+  assert.throws(
+    () => bindParameters(parseSelect(sql), params),
+    (error) => error instanceof SqlError && message.test(error.message),
+  );
+
+// Each rejected query, with the message and position the caller is shown
+const rejected: [sql: string, message: string, position?: number][] = [
+  ["", "Query is empty"],
+  ["DELETE FROM users", 'Only SELECT queries are allowed, got "DELETE"', 0],
+  ["SELECT * FROM users; SELECT 1", "Multiple statements are not allowed", 19],
+  ["SELECT * FROM users -- x", "SQL comments are not supported", 20],
+  ["SELECT 1", "Expected FROM but found end of query", 8],
+  ["SELECT * FROM (SELECT 1)", 'Expected table name but found "("', 14],
+  [
+    "SELECT * FROM users WHERE id IN (SELECT user_id FROM orders)",
+    "Subqueries are not supported",
+    33,
+  ],
+  [
+    "SELECT * FROM main.users",
+    "Schema-qualified table names are not supported",
+    18,
+  ],
+  [
+    "SELECT * FROM users u JOIN orders o",
+    "JOIN requires an explicit ON condition",
+    35,
+  ],
+  [
+    "SELECT LOWER(name) FROM users",
+    'Unsupported function "LOWER". Supported functions: COUNT, SUM, AVG, MIN, MAX',
+    7,
+  ],
+  [
+    "SELECT SUM(*) FROM orders",
+    'SUM(*) is not valid; only COUNT(*) accepts "*"',
+    7,
+  ],
+  [
+    "SELECT * FROM users LIMIT -1",
+    'LIMIT expects a non-negative integer, got "-"',
+    26,
+  ],
+  [
+    "SELECT * FROM users UNION SELECT * FROM users",
+    "Unsupported syntax: UNION",
+    20,
+  ],
+  [
+    "SELECT * FROM users LIMIT 1 OFFSET 1 OFFSET 2",
+    "Unsupported syntax: OFFSET",
+    37,
+  ],
+  ["SELECT 'abc FROM users", "Unterminated string literal", 7],
+  ["SELECT name FROM users WHERE id = 1 #", 'Unexpected character "#"', 36],
+];
+
+describe("parsing", () => {
+  for (const [sql, message, position] of rejected) {
+    it(`rejects ${JSON.stringify(sql)}`, () => {
+      assert.throws(
+        () => parseSelect(sql),
+        (error) =>
+          error instanceof SqlError &&
+          error.message.startsWith(message) &&
+          error.position === position,
+      );
+    });
+  }
+
+  it("parses joins, grouping, ordering and paging", () => {
+    const statement = parseSelect(
+      "SELECT u.city, COUNT(*) AS n FROM users u LEFT JOIN orders o ON o.user_id = u.id " +
+        "WHERE o.total > 10 GROUP BY u.city HAVING COUNT(*) > 1 ORDER BY n DESC LIMIT 5 OFFSET 2",
+    );
+    assert.deepEqual(statement.from, { name: "users", alias: "u" });
+    assert.deepEqual(
+      statement.joins.map((j) => [j.type, j.table.name, formatExpr(j.on)]),
+      [["left", "orders", "o.user_id = u.id"]],
+    );
+    assert.equal(formatExpr(statement.where!), "o.total > 10");
+    assert.deepEqual(statement.groupBy.map(formatExpr), ["u.city"]);
+    assert.equal(formatExpr(statement.having!), "count(*) > 1");
+    assert.deepEqual(
+      statement.orderBy.map((o) => [formatExpr(o.expr), o.direction]),
+      [["n", "desc"]],
+    );
+    assert.equal(statement.limit, 5);
+    assert.equal(statement.offset, 2);
+  });
+});
+
+describe("binding parameters", () => {
+  it("binds positional placeholders in order", () => {
+    assert.equal(
+      boundWhere("SELECT id FROM users WHERE id = ? AND name = ?", [1, "Ava"]),
+      formatExpr(
+        parseSelect("SELECT id FROM users WHERE id = 1 AND name = 'Ava'")
+          .where!,
+      ),
+    );
+  });
+
+  it("binds a named placeholder everywhere it is used", () => {
+    assert.equal(
+      boundWhere("SELECT id FROM orders WHERE user_id = :id OR id = :id", {
+        id: 2,
+      }),
+      formatExpr(
+        parseSelect("SELECT id FROM orders WHERE user_id = 2 OR id = 2").where!,
+      ),
+    );
+  });
+
+  it("binds null, booleans and text as literals, never as SQL", () => {
+    const where = bindParameters(
+      parseSelect("SELECT id FROM users WHERE name = ? OR ? OR ? IS NULL"),
+      ["x' OR '1'='1", true, null],
+    ).where!;
+    assert.deepEqual(where, {
+      kind: "binary",
+      op: "or",
+      left: {
+        kind: "binary",
+        op: "or",
+        left: {
+          kind: "binary",
+          op: "=",
+          left: { kind: "column", name: "name" },
+          right: { kind: "literal", value: "x' OR '1'='1" },
+        },
+        right: { kind: "literal", value: true },
+      },
+      right: {
+        kind: "isNull",
+        expr: { kind: "literal", value: null },
+        negated: false,
+      },
+    });
+  });
+
+  it("rejects a positional count mismatch", () => {
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = ? AND name = ?",
+      [1],
+      /2 "\?" placeholder\(s\) but 1 param\(s\)/,
+    );
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = ?",
+      { id: 1 },
+      /pass params as an array of 1 value/,
+    );
+  });
+
+  it("rejects missing and unknown named parameters", () => {
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = :id AND name = :name",
+      { id: 1 },
+      /Missing value\(s\) for named parameter\(s\): :name/,
+    );
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = :id",
+      { id: 1, extra: 2 },
+      /Unknown parameter\(s\) not used by the query: extra/,
+    );
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = :id",
+      [1],
+      /pass params as an object/,
+    );
+  });
+
+  it("does not take named values from the object prototype", () => {
+    for (const name of ["constructor", "toString", "hasOwnProperty"]) {
+      rejectsBinding(
+        `SELECT id FROM users WHERE name = :${name}`,
+        {},
+        new RegExp(`Missing value\\(s\\) for named parameter\\(s\\): :${name}`),
+      );
+    }
+  });
+
+  it("rejects mixed placeholders and params without placeholders", () => {
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = ? AND name = :name",
+      [1],
+      /Cannot mix positional/,
+    );
+    rejectsBinding(
+      "SELECT id FROM users",
+      [1],
+      /the query has no "\?" or ":name" placeholders/,
+    );
+  });
+
+  it("rejects values that aren't scalars", () => {
+    rejectsBinding(
+      "SELECT id FROM users WHERE id = ?",
+      [[1, 2]] as unknown as QueryParams,
+      /Parameter \? must be a string, number, boolean or null/,
+    );
+  });
+});
@@ -0,0 +1,1041 @@
+// SQL Parser for the run_sql tool
+// Parses the SELECT subset the demo engine can evaluate and rejects everything else
+
+import { z } from "zod";
+
+// --- Errors ---
+export class SqlError extends Error {
+  constructor(
+    message: string,
+    public readonly position?: number,
+  ) {
+    super(
+      position === undefined ? message : `${message} (at position ${position})`,
+    );
+    this.name = "SqlError";
+  }
+}
+
+// --- AST Types ---
+export type LiteralValue = string | number | boolean | null;
+
+export type AggregateFunction = "count" | "sum" | "avg" | "min" | "max";
+
+export type BinaryOperator =
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "and"
+  | "or";
+
+export type Expr =
+  | { kind: "literal"; value: LiteralValue }
+  | { kind: "column"; table?: string; name: string }
+  | { kind: "binary"; op: BinaryOperator; left: Expr; right: Expr }
+  | { kind: "unary"; op: "not" | "-"; operand: Expr }
+  | {
+      kind: "aggregate";
+      fn: AggregateFunction;
+      arg: Expr | "*";
+      distinct: boolean;
+    }
+  | { kind: "in"; expr: Expr; values: Expr[]; negated: boolean }
+  | { kind: "between"; expr: Expr; low: Expr; high: Expr; negated: boolean }
+  | { kind: "like"; expr: Expr; pattern: Expr; negated: boolean }
+  | { kind: "isNull"; expr: Expr; negated: boolean }
+  // Bind placeholder: "?" (positional, 0-based index) or ":name"
+  | { kind: "param"; index?: number; name?: string; position: number };
+
+export type SelectItem =
+  | { kind: "star"; table?: string }
+  | { kind: "expr"; expr: Expr; alias?: string };
+
+export interface TableRef {
+  name: string;
+  alias: string;
+}
+
+export interface JoinClause {
+  type: "inner" | "left";
+  table: TableRef;
+  on: Expr;
+}
+
+export interface OrderByItem {
+  expr: Expr;
+  direction: "asc" | "desc";
+}
+
+export interface SelectStatement {
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableRef;
+  joins: JoinClause[];
+  where?: Expr;
+  groupBy: Expr[];
+  having?: Expr;
+  orderBy: OrderByItem[];
+  limit?: number;
+  offset?: number;
+}
+
+// --- Tokenizer ---
+type TokenType =
+  | "keyword"
+  | "identifier"
+  | "number"
+  | "string"
+  | "operator"
+  | "punct"
+  | "placeholder"
+  | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set([
+  "select",
+  "distinct",
+  "from",
+  "where",
+  "and",
+  "or",
+  "not",
+  "as",
+  "join",
+  "inner",
+  "left",
+  "outer",
+  "on",
+  "group",
+  "by",
+  "having",
+  "order",
+  "asc",
+  "desc",
+  "limit",
+  "offset",
+  "in",
+  "is",
+  "null",
+  "like",
+  "between",
+  "true",
+  "false",
+]);
+
+// Reserved so they can be named in errors instead of being read as aliases
+const UNSUPPORTED_KEYWORDS = new Set([
+  "insert",
+  "update",
+  "delete",
+  "drop",
+  "alter",
+  "create",
+  "truncate",
+  "replace",
+  "merge",
+  "grant",
+  "revoke",
+  "attach",
+  "pragma",
+  "with",
+  "union",
+  "intersect",
+  "except",
+  "right",
+  "full",
+  "cross",
+  "natural",
+  "using",
+  "case",
+  "exists",
+  "window",
+  "over",
+]);
+
+const AGGREGATES = new Set<string>(["count", "sum", "avg", "min", "max"]);
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "-" && sql[i + 1] === "-") {
+      throw new SqlError("SQL comments are not supported", i);
+    }
+    if (ch === "/" && sql[i + 1] === "*") {
+      throw new SqlError("SQL comments are not supported", i);
+    }
+
+    // Numbers (integers and decimals)
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(sql[i + 1] ?? ""))) {
+      const start = i;
+      while (i < sql.length && /[0-9.]/.test(sql[i])) i++;
+      const text = sql.slice(start, i);
+      if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) {
+        throw new SqlError(`Invalid number "${text}"`, start);
+      }
+      tokens.push({ type: "number", value: text, position: start });
+      continue;
+    }
+
+    // String literals use single quotes; '' escapes a quote
+    if (ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (true) {
+        if (i >= sql.length) {
+          throw new SqlError("Unterminated string literal", start);
+        }
+        if (sql[i] === "'") {
+          if (sql[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += sql[i++];
+      }
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    // Quoted identifiers
+    if (ch === '"' || ch === "`") {
+      const start = i;
+      const end = sql.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new SqlError("Unterminated quoted identifier", start);
+      }
+      tokens.push({
+        type: "identifier",
+        value: sql.slice(i + 1, end),
+        position: start,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) i++;
+      const word = sql.slice(start, i);
+      const lower = word.toLowerCase();
+      const reserved = KEYWORDS.has(lower) || UNSUPPORTED_KEYWORDS.has(lower);
+      tokens.push({
+        type: reserved ? "keyword" : "identifier",
+        value: reserved ? lower : word,
+        position: start,
+      });
+      continue;
+    }
+
+    const two = sql.slice(i, i + 2);
+    if (["<=", ">=", "!=", "<>"].includes(two)) {
+      tokens.push({
+        type: "operator",
+        value: two === "<>" ? "!=" : two,
+        position: i,
+      });
+      i += 2;
+      continue;
+    }
+
+    if ("=<>+-*/%".includes(ch)) {
+      tokens.push({ type: "operator", value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    if ("(),.;".includes(ch)) {
+      tokens.push({ type: "punct", value: ch, position: i });
+      i++;
+      continue;
+    }
+
+    // Bind placeholders: "?" or ":name"
+    if (ch === "?") {
+      tokens.push({ type: "placeholder", value: "", position: i });
+      i++;
+      continue;
+    }
+    if (ch === ":" && /[A-Za-z_]/.test(sql[i + 1] ?? "")) {
+      const start = i;
+      i++;
+      while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) i++;
+      tokens.push({
+        type: "placeholder",
+        value: sql.slice(start + 1, i),
+        position: start,
+      });
+      continue;
+    }
+
+    throw new SqlError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ type: "eof", value: "", position: sql.length });
+  return tokens;
+}
+
+// --- Parser ---
+class Parser {
+  private pos = 0;
+  private positionalParams = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseSelect(): SelectStatement {
+    const first = this.peek();
+    if (!this.isKeyword("select")) {
+      if (first.type === "eof") {
+        throw new SqlError("Query is empty");
+      }
+      throw new SqlError(
+        `Only SELECT queries are allowed, got "${first.value.toUpperCase()}"`,
+        first.position,
+      );
+    }
+    this.next();
+
+    const distinct = this.acceptKeyword("distinct");
+    const columns = this.parseSelectList();
+
+    this.expectKeyword("from");
+    const from = this.parseTableRef();
+
+    const joins: JoinClause[] = [];
+    while (
+      this.isKeyword("join") ||
+      this.isKeyword("inner") ||
+      this.isKeyword("left")
+    ) {
+      joins.push(this.parseJoin());
+    }
+
+    const where = this.acceptKeyword("where") ? this.parseExpr() : undefined;
+
+    const groupBy: Expr[] = [];
+    if (this.acceptKeyword("group")) {
+      this.expectKeyword("by");
+      do {
+        groupBy.push(this.parseExpr());
+      } while (this.acceptPunct(","));
+    }
+
+    const having = this.acceptKeyword("having") ? this.parseExpr() : undefined;
+
+    const orderBy: OrderByItem[] = [];
+    if (this.acceptKeyword("order")) {
+      this.expectKeyword("by");
+      do {
+        const expr = this.parseExpr();
+        let direction: "asc" | "desc" = "asc";
+        if (this.acceptKeyword("desc")) direction = "desc";
+        else this.acceptKeyword("asc");
+        orderBy.push({ expr, direction });
+      } while (this.acceptPunct(","));
+    }
+
+    let limit: number | undefined;
+    let offset: number | undefined;
+    if (this.acceptKeyword("limit")) {
+      limit = this.parseNonNegativeInteger("LIMIT");
+      if (this.acceptPunct(",")) {
+        // MySQL-style "LIMIT offset, count"
+        offset = limit;
+        limit = this.parseNonNegativeInteger("LIMIT");
+      }
+    }
+    if (this.acceptKeyword("offset")) {
+      if (offset !== undefined) {
+        throw new SqlError("OFFSET specified twice", this.previous().position);
+      }
+      offset = this.parseNonNegativeInteger("OFFSET");
+    }
+
+    if (this.acceptPunct(";") && this.peek().type !== "eof") {
+      throw new SqlError(
+        "Multiple statements are not allowed",
+        this.previous().position,
+      );
+    }
+    const trailing = this.peek();
+    if (trailing.type !== "eof") {
+      throw this.unsupported(trailing);
+    }
+
+    return {
+      distinct,
+      columns,
+      from,
+      joins,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      limit,
+      offset,
+    };
+  }
+
+  parseStandaloneExpr(): Expr {
+    if (this.peek().type === "eof") {
+      throw new SqlError("Expression is empty");
+    }
+    const expr = this.parseExpr();
+    const trailing = this.peek();
+    if (trailing.type !== "eof") {
+      throw this.unsupported(trailing);
+    }
+    return expr;
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      if (this.acceptOperator("*")) {
+        items.push({ kind: "star" });
+        continue;
+      }
+      // table.* projections
+      const token = this.peek();
+      if (
+        token.type === "identifier" &&
+        this.peek(1).value === "." &&
+        this.peek(2).value === "*"
+      ) {
+        this.pos += 3;
+        items.push({ kind: "star", table: token.value });
+        continue;
+      }
+      const expr = this.parseExpr();
+      items.push({ kind: "expr", expr, alias: this.parseAlias() });
+    } while (this.acceptPunct(","));
+    return items;
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.acceptKeyword("as")) {
+      return this.expectIdentifier("alias");
+    }
+    if (this.peek().type === "identifier") {
+      return this.next().value;
+    }
+    return undefined;
+  }
+
+  private parseTableRef(): TableRef {
+    const name = this.expectIdentifier("table name");
+    if (this.peek().value === ".") {
+      throw new SqlError(
+        "Schema-qualified table names are not supported",
+        this.peek().position,
+      );
+    }
+    return { name, alias: this.parseAlias() ?? name };
+  }
+
+  private parseJoin(): JoinClause {
+    let type: "inner" | "left" = "inner";
+    if (this.acceptKeyword("left")) {
+      type = "left";
+      this.acceptKeyword("outer");
+    } else {
+      this.acceptKeyword("inner");
+    }
+    this.expectKeyword("join");
+    const table = this.parseTableRef();
+    if (!this.isKeyword("on")) {
+      throw new SqlError(
+        "JOIN requires an explicit ON condition",
+        this.peek().position,
+      );
+    }
+    this.next();
+    return { type, table, on: this.parseExpr() };
+  }
+
+  private parseExpr(): Expr {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expr {
+    let left = this.parseAnd();
+    while (this.acceptKeyword("or")) {
+      left = { kind: "binary", op: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expr {
+    let left = this.parseNot();
+    while (this.acceptKeyword("and")) {
+      left = { kind: "binary", op: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expr {
+    if (this.acceptKeyword("not")) {
+      return { kind: "unary", op: "not", operand: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expr {
+    const expr = this.parseAdditive();
+
+    const token = this.peek();
+    if (
+      token.type === "operator" &&
+      ["=", "!=", "<", "<=", ">", ">="].includes(token.value)
+    ) {
+      this.next();
+      return {
+        kind: "binary",
+        op: token.value as BinaryOperator,
+        left: expr,
+        right: this.parseAdditive(),
+      };
+    }
+
+    if (this.acceptKeyword("is")) {
+      const negated = this.acceptKeyword("not");
+      this.expectKeyword("null");
+      return { kind: "isNull", expr, negated };
+    }
+
+    const negated =
+      this.isKeyword("not") &&
+      ["in", "between", "like"].includes(this.peek(1).value);
+    if (negated) this.next();
+
+    if (this.acceptKeyword("in")) {
+      this.expectPunct("(");
+      if (this.isKeyword("select")) {
+        throw new SqlError(
+          "Subqueries are not supported",
+          this.peek().position,
+        );
+      }
+      const values: Expr[] = [];
+      do {
+        values.push(this.parseAdditive());
+      } while (this.acceptPunct(","));
+      this.expectPunct(")");
+      return { kind: "in", expr, values, negated };
+    }
+
+    if (this.acceptKeyword("between")) {
+      const low = this.parseAdditive();
+      this.expectKeyword("and");
+      const high = this.parseAdditive();
+      return { kind: "between", expr, low, high, negated };
+    }
+
+    if (this.acceptKeyword("like")) {
+      return { kind: "like", expr, pattern: this.parseAdditive(), negated };
+    }
+
+    return expr;
+  }
+
+  private parseAdditive(): Expr {
+    let left = this.parseMultiplicative();
+    while (
+      this.peek().type === "operator" &&
+      "+-".includes(this.peek().value)
+    ) {
+      const op = this.next().value as BinaryOperator;
+      left = { kind: "binary", op, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Expr {
+    let left = this.parseUnary();
+    while (
+      this.peek().type === "operator" &&
+      "*/%".includes(this.peek().value)
+    ) {
+      const op = this.next().value as BinaryOperator;
+      left = { kind: "binary", op, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    if (this.acceptOperator("-")) {
+      return { kind: "unary", op: "-", operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const token = this.peek();
+
+    switch (token.type) {
+      case "number":
+        this.next();
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        this.next();
+        return { kind: "literal", value: token.value };
+      case "keyword":
+        if (token.value === "null") {
+          this.next();
+          return { kind: "literal", value: null };
+        }
+        if (token.value === "true" || token.value === "false") {
+          this.next();
+          return { kind: "literal", value: token.value === "true" };
+        }
+        break;
+      case "punct":
+        if (token.value === "(") {
+          this.next();
+          if (this.isKeyword("select")) {
+            throw new SqlError(
+              "Subqueries are not supported",
+              this.peek().position,
+            );
+          }
+          const expr = this.parseExpr();
+          this.expectPunct(")");
+          return expr;
+        }
+        break;
+      case "placeholder":
+        this.next();
+        return token.value === ""
+          ? {
+              kind: "param",
+              index: this.positionalParams++,
+              position: token.position,
+            }
+          : { kind: "param", name: token.value, position: token.position };
+      case "identifier":
+        this.next();
+        if (this.peek().value === "(") {
+          return this.parseFunctionCall(token);
+        }
+        if (this.acceptPunct(".")) {
+          const name = this.expectIdentifier("column name");
+          return { kind: "column", table: token.value, name };
+        }
+        return { kind: "column", name: token.value };
+    }
+
+    throw this.unsupported(token);
+  }
+
+  private parseFunctionCall(name: Token): Expr {
+    const fn = name.value.toLowerCase();
+    if (!AGGREGATES.has(fn)) {
+      throw new SqlError(
+        `Unsupported function "${name.value}". Supported functions: COUNT, SUM, AVG, MIN, MAX`,
+        name.position,
+      );
+    }
+    this.expectPunct("(");
+    const distinct = this.acceptKeyword("distinct");
+
+    let arg: Expr | "*";
+    if (this.acceptOperator("*")) {
+      if (fn !== "count" || distinct) {
+        throw new SqlError(
+          `${fn.toUpperCase()}(*) is not valid; only COUNT(*) accepts "*"`,
+          name.position,
+        );
+      }
+      arg = "*";
+    } else {
+      arg = this.parseExpr();
+    }
+    this.expectPunct(")");
+    return { kind: "aggregate", fn: fn as AggregateFunction, arg, distinct };
+  }
+
+  private parseNonNegativeInteger(clause: string): number {
+    const token = this.peek();
+    if (token.type !== "number" || !/^\d+$/.test(token.value)) {
+      throw new SqlError(
+        `${clause} expects a non-negative integer, got "${token.value || "end of query"}"`,
+        token.position,
+      );
+    }
+    this.next();
+    return Number(token.value);
+  }
+
+  // --- Token helpers ---
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(this.pos - 1, 0)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === "keyword" && token.value === value;
+  }
+
+  private acceptKeyword(value: string): boolean {
+    if (this.isKeyword(value)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(value: string): void {
+    if (!this.acceptKeyword(value)) {
+      throw this.expected(value.toUpperCase());
+    }
+  }
+
+  private acceptPunct(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "punct" && token.value === value) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      throw this.expected(`"${value}"`);
+    }
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === "operator" && token.value === value) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private expectIdentifier(what: string): string {
+    const token = this.peek();
+    if (token.type !== "identifier") {
+      if (UNSUPPORTED_KEYWORDS.has(token.value)) {
+        throw this.unsupported(token);
+      }
+      throw this.expected(what);
+    }
+    this.next();
+    return token.value;
+  }
+
+  private expected(what: string): SqlError {
+    const token = this.peek();
+    const found = token.type === "eof" ? "end of query" : `"${token.value}"`;
+    return new SqlError(`Expected ${what} but found ${found}`, token.position);
+  }
+
+  private unsupported(token: Token): SqlError {
+    if (token.type === "eof") {
+      return new SqlError("Unexpected end of query", token.position);
+    }
+    if (token.type === "punct" && token.value === ";") {
+      return new SqlError(
+        "Multiple statements are not allowed",
+        token.position,
+      );
+    }
+    if (token.type === "keyword") {
+      return new SqlError(
+        `Unsupported syntax: ${token.value.toUpperCase()}`,
+        token.position,
+      );
+    }
+    return new SqlError(`Unexpected token "${token.value}"`, token.position);
+  }
+}
+
+export function parseSelect(sql: string): SelectStatement {
+  return new Parser(tokenize(sql)).parseSelect();
+}
+
+// A standalone boolean/scalar expression, as it would appear in a WHERE clause
+export function parseExpression(text: string): Expr {
+  return new Parser(tokenize(text)).parseStandaloneExpr();
+}
+
+// --- AST Helpers ---
+
+// Render an expression back to SQL text; used for default column names and error messages
+export function formatExpr(expr: Expr): string {
+  switch (expr.kind) {
+    case "literal":
+      if (expr.value === null) return "NULL";
+      if (typeof expr.value === "string") {
+        return `'${expr.value.replace(/'/g, "''")}'`;
+      }
+      return String(expr.value).toUpperCase();
+    case "column":
+      return expr.table ? `${expr.table}.${expr.name}` : expr.name;
+    case "binary":
+      return `${formatExpr(expr.left)} ${expr.op.toUpperCase()} ${formatExpr(expr.right)}`;
+    case "unary":
+      return expr.op === "not"
+        ? `NOT ${formatExpr(expr.operand)}`
+        : `-${formatExpr(expr.operand)}`;
+    case "aggregate": {
+      const arg = expr.arg === "*" ? "*" : formatExpr(expr.arg);
+      return `${expr.fn}(${expr.distinct ? "DISTINCT " : ""}${arg})`;
+    }
+    case "in":
+      return `${formatExpr(expr.expr)} ${expr.negated ? "NOT " : ""}IN (${expr.values.map(formatExpr).join(", ")})`;
+    case "between":
+      return `${formatExpr(expr.expr)} ${expr.negated ? "NOT " : ""}BETWEEN ${formatExpr(expr.low)} AND ${formatExpr(expr.high)}`;
+    case "like":
+      return `${formatExpr(expr.expr)} ${expr.negated ? "NOT " : ""}LIKE ${formatExpr(expr.pattern)}`;
+    case "isNull":
+      return `${formatExpr(expr.expr)} IS ${expr.negated ? "NOT " : ""}NULL`;
+    case "param":
+      return expr.name !== undefined ? `:${expr.name}` : "?";
+  }
+}
+
+// Visit every sub-expression, depth first
+export function walkExpr(expr: Expr, visit: (node: Expr) => void): void {
+  visit(expr);
+  switch (expr.kind) {
+    case "binary":
+      walkExpr(expr.left, visit);
+      walkExpr(expr.right, visit);
+      break;
+    case "unary":
+      walkExpr(expr.operand, visit);
+      break;
+    case "aggregate":
+      if (expr.arg !== "*") walkExpr(expr.arg, visit);
+      break;
+    case "in":
+      walkExpr(expr.expr, visit);
+      expr.values.forEach((v) => walkExpr(v, visit));
+      break;
+    case "between":
+      walkExpr(expr.expr, visit);
+      walkExpr(expr.low, visit);
+      walkExpr(expr.high, visit);
+      break;
+    case "like":
+      walkExpr(expr.expr, visit);
+      walkExpr(expr.pattern, visit);
+      break;
+    case "isNull":
+      walkExpr(expr.expr, visit);
+      break;
+  }
+}
+
+// Rebuild an expression bottom-up, replacing nodes via fn
+export function mapExpr(expr: Expr, fn: (node: Expr) => Expr): Expr {
+  const map = (e: Expr) => mapExpr(e, fn);
+  switch (expr.kind) {
+    case "binary":
+      return fn({ ...expr, left: map(expr.left), right: map(expr.right) });
+    case "unary":
+      return fn({ ...expr, operand: map(expr.operand) });
+    case "aggregate":
+      return fn({ ...expr, arg: expr.arg === "*" ? "*" : map(expr.arg) });
+    case "in":
+      return fn({
+        ...expr,
+        expr: map(expr.expr),
+        values: expr.values.map(map),
+      });
+    case "between":
+      return fn({
+        ...expr,
+        expr: map(expr.expr),
+        low: map(expr.low),
+        high: map(expr.high),
+      });
+    case "like":
+      return fn({ ...expr, expr: map(expr.expr), pattern: map(expr.pattern) });
+    case "isNull":
+      return fn({ ...expr, expr: map(expr.expr) });
+    default:
+      return fn(expr);
+  }
+}
+
+export function containsAggregate(expr: Expr): boolean {
+  let found = false;
+  walkExpr(expr, (node) => {
+    if (node.kind === "aggregate") found = true;
+  });
+  return found;
+}
+
+// Tables referenced by a statement, in FROM/JOIN order
+export function referencedTables(statement: SelectStatement): string[] {
+  const names = [
+    statement.from.name,
+    ...statement.joins.map((j) => j.table.name),
+  ];
+  return [...new Set(names)];
+}
+
+// --- Bind Parameters ---
+export const ParamValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+]);
+export type ParamValue = z.infer<typeof ParamValueSchema>;
+
+// The params input of run_sql and explain_sql: an array for "?", an object for ":name"
+export const QueryParamsSchema = z.union([
+  z.array(ParamValueSchema),
+  z.record(ParamValueSchema),
+]);
+export type QueryParams = z.infer<typeof QueryParamsSchema>;
+
+function mapStatement(
+  statement: SelectStatement,
+  fn: (node: Expr) => Expr,
+): SelectStatement {
+  const map = (e: Expr) => mapExpr(e, fn);
+  return {
+    ...statement,
+    columns: statement.columns.map((c) =>
+      c.kind === "expr" ? { ...c, expr: map(c.expr) } : c,
+    ),
+    joins: statement.joins.map((j) => ({ ...j, on: map(j.on) })),
+    where: statement.where && map(statement.where),
+    groupBy: statement.groupBy.map(map),
+    having: statement.having && map(statement.having),
+    orderBy: statement.orderBy.map((o) => ({ ...o, expr: map(o.expr) })),
+  };
+}
+
+export function collectParameters(
+  statement: SelectStatement,
+): Extract<Expr, { kind: "param" }>[] {
+  const params: Extract<Expr, { kind: "param" }>[] = [];
+  mapStatement(statement, (node) => {
+    if (node.kind === "param") params.push(node);
+    return node;
+  });
+  return params;
+}
+
+// Substitute bound values for placeholders; values are never spliced into SQL text
+export function bindParameters(
+  statement: SelectStatement,
+  params: QueryParams | undefined,
+): SelectStatement {
+  const placeholders = collectParameters(statement);
+  const positional = placeholders.filter((p) => p.name === undefined);
+  const named = placeholders.filter((p) => p.name !== undefined);
+
+  if (placeholders.length === 0) {
+    const provided = Array.isArray(params)
+      ? params.length
+      : Object.keys(params ?? {}).length;
+    if (provided > 0) {
+      throw new SqlError(
+        `params were provided but the query has no "?" or ":name" placeholders`,
+      );
+    }
+    return statement;
+  }
+
+  if (positional.length > 0 && named.length > 0) {
+    throw new SqlError(
+      `Cannot mix positional "?" and named ":name" placeholders in one query`,
+      named[0].position,
+    );
+  }
+
+  let lookup: (param: Extract<Expr, { kind: "param" }>) => ParamValue;
+
+  if (positional.length > 0) {
+    if (!Array.isArray(params)) {
+      throw new SqlError(
+        `Query uses ${positional.length} positional "?" placeholder(s); pass params as an array of ${positional.length} value(s)`,
+      );
+    }
+    if (params.length !== positional.length) {
+      throw new SqlError(
+        `Query has ${positional.length} "?" placeholder(s) but ${params.length} param(s) were provided`,
+      );
+    }
+    lookup = (param) => params[param.index!];
+  } else {
+    if (params === undefined || Array.isArray(params)) {
+      const names = [...new Set(named.map((p) => p.name))];
+      throw new SqlError(
+        `Query uses named placeholders (${names.map((n) => `:${n}`).join(", ")}); pass params as an object`,
+      );
+    }
+    const names = new Set(named.map((p) => p.name!));
+    const missing = [...names].filter((n) => !Object.hasOwn(params, n));
+    if (missing.length > 0) {
+      throw new SqlError(
+        `Missing value(s) for named parameter(s): ${missing.map((n) => `:${n}`).join(", ")}`,
+      );
+    }
+    const unused = Object.keys(params).filter((k) => !names.has(k));
+    if (unused.length > 0) {
+      throw new SqlError(
+        `Unknown parameter(s) not used by the query: ${unused.join(", ")}`,
+      );
+    }
+    lookup = (param) => params[param.name!];
+  }
+
+  return mapStatement(statement, (node) => {
+    if (node.kind !== "param") return node;
+    const value = lookup(node);
+    if (
+      value !== null &&
+      !["string", "number", "boolean"].includes(typeof value)
+    ) {
+      throw new SqlError(
+        `Parameter ${formatExpr(node)} must be a string, number, boolean or null`,
+        node.position,
+      );
+    }
+    return { kind: "literal", value };
+  });
+}
@@ -0,0 +1,350 @@
+// SQLite Data Source
+// File-backed adapter that works offline; seeds the demo tables on first open
+
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+import { orders, users } from "./mock-data";
+import {
+  applyReadOptions,
+  assertTablesExist,
+  ColumnInfo,
+  DataSource,
+  executeOnDataSource,
+  ReadOptions,
+  TableInfo,
+} from "./data-source";
+import { Expr, SelectStatement } from "./sql-parser";
+import { ExecuteOptions, isNumericText, QueryResult, Row } from "./sql-engine";
+
+const SEED_SCHEMA = `
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  city TEXT NOT NULL,
+  joined DATE NOT NULL
+);
+CREATE TABLE IF NOT EXISTS orders (
+  id INTEGER PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  total REAL NOT NULL,
+  created DATE NOT NULL
+);
+`;
+
+// Map SQLite declared types onto our column types (SQLite type affinity rules)
+function toColumnType(declared: string): ColumnInfo["type"] {
+  const type = declared.toUpperCase();
+  if (type.includes("INT")) return "integer";
+  if (type.includes("DATE") || type.includes("TIME")) return "date";
+  if (/REAL|FLOA|DOUB|NUM|DEC/.test(type)) return "real";
+  return "text";
+}
+
+// Table names are checked against sqlite_master before use, quoting guards the rest
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// --- Predicate Pushdown ---
+// A predicate only goes to SQLite when SQLite evaluates it exactly as the engine
+// would, so the rows it returns (and any LIMIT) match the in-memory adapter.
+// Anything else is filtered in JS: arithmetic (SQLite divides integers),
+// booleans, bare values used as conditions (SQLite reads 'abc' as false), and
+// comparisons SQLite's type affinity would convert differently
+const COMPARISONS = new Set(["=", "!=", "<", "<=", ">", ">="]);
+
+// How SQLite compares an operand: by its column's declared type, or as a literal
+interface Operand {
+  sql: string;
+  type: "number" | "text" | "date" | "null";
+  literal?: string;
+}
+
+type ColumnTypes = Record<string, ColumnInfo["type"]>;
+
+const operandType = (type: ColumnInfo["type"]): Operand["type"] =>
+  type === "integer" || type === "real" ? "number" : type;
+
+function toOperand(
+  expr: Expr,
+  types: ColumnTypes,
+  params: unknown[],
+): Operand | undefined {
+  if (expr.kind === "column") {
+    const type = types[expr.name];
+    return type && { sql: quoteIdentifier(expr.name), type: operandType(type) };
+  }
+  if (expr.kind !== "literal" || typeof expr.value === "boolean") {
+    return undefined;
+  }
+  params.push(expr.value);
+  if (expr.value === null) return { sql: "?", type: "null" };
+  return typeof expr.value === "number"
+    ? { sql: "?", type: "number" }
+    : { sql: "?", type: "text", literal: expr.value };
+}
+
+// Same type on both sides, or a NULL. Text against a DATE column is only safe
+// when it isn't numeric: DATE has numeric affinity, so SQLite would turn '3000'
+// into a number where the engine compares text
+function comparable(a: Operand, b: Operand): boolean {
+  if (a.type === "null" || b.type === "null" || a.type === b.type) return true;
+  const [date, text] = a.type === "date" ? [a, b] : [b, a];
+  return (
+    date.type === "date" &&
+    text.literal !== undefined &&
+    !isNumericText(text.literal)
+  );
+}
+
+// SQLite's LIKE ignores case for ASCII only and its _ matches a code point, so
+// only ASCII patterns without _ match the engine's, and only against text
+function likeable(value: Operand, pattern: Operand): boolean {
+  return (
+    (value.type === "text" || value.type === "date") &&
+    value.literal === undefined &&
+    pattern.literal !== undefined &&
+    /^[\x00-\x7f]*$/.test(pattern.literal) &&
+    !pattern.literal.includes("_")
+  );
+}
+
+// SQLite text for a row predicate, with literals bound as parameters;
+// undefined when it can't be evaluated exactly as the engine would
+function toSqlite(
+  expr: Expr,
+  types: ColumnTypes,
+  params: unknown[],
+): string | undefined {
+  const sub = (e: Expr) => toSqlite(e, types, params);
+  const operands = (exprs: Expr[]) => {
+    const result = exprs.map((e) => toOperand(e, types, params));
+    return result.every((o) => o !== undefined)
+      ? (result as Operand[])
+      : undefined;
+  };
+  const not = (negated: boolean) => (negated ? "NOT " : "");
+
+  switch (expr.kind) {
+    case "binary": {
+      if (expr.op === "and" || expr.op === "or") {
+        const left = sub(expr.left);
+        const right = sub(expr.right);
+        return left && right && `(${left} ${expr.op.toUpperCase()} ${right})`;
+      }
+      if (!COMPARISONS.has(expr.op)) return undefined;
+      const parts = operands([expr.left, expr.right]);
+      if (!parts || !comparable(parts[0], parts[1])) return undefined;
+      return `(${parts[0].sql} ${expr.op} ${parts[1].sql})`;
+    }
+    case "unary": {
+      if (expr.op !== "not") return undefined;
+      const operand = sub(expr.operand);
+      return operand && `(NOT ${operand})`;
+    }
+    case "in": {
+      const parts = operands([expr.expr, ...expr.values]);
+      if (!parts || !parts.slice(1).every((p) => comparable(parts[0], p))) {
+        return undefined;
+      }
+      const list = parts.slice(1).map((p) => p.sql);
+      return `(${parts[0].sql} ${not(expr.negated)}IN (${list.join(", ")}))`;
+    }
+    case "between": {
+      const parts = operands([expr.expr, expr.low, expr.high]);
+      if (
+        !parts ||
+        !comparable(parts[0], parts[1]) ||
+        !comparable(parts[0], parts[2])
+      ) {
+        return undefined;
+      }
+      return `(${parts[0].sql} ${not(expr.negated)}BETWEEN ${parts[1].sql} AND ${parts[2].sql})`;
+    }
+    case "like": {
+      const parts = operands([expr.expr, expr.pattern]);
+      if (!parts || !likeable(parts[0], parts[1])) return undefined;
+      return `(${parts[0].sql} ${not(expr.negated)}LIKE ${parts[1].sql})`;
+    }
+    case "isNull": {
+      const parts = operands([expr.expr]);
+      return parts && `(${parts[0].sql} IS ${not(expr.negated)}NULL)`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+const conjuncts = (expr: Expr): Expr[] =>
+  expr.kind === "binary" && expr.op === "and"
+    ? [...conjuncts(expr.left), ...conjuncts(expr.right)]
+    : [expr];
+
+export class SqliteDataSource implements DataSource {
+  readonly kind = "sqlite";
+
+  private constructor(private readonly db: BetterSqlite3.Database) {}
+
+  static async open(filename: string): Promise<SqliteDataSource> {
+    // Loaded lazily so the native module is only required when configured
+    const { default: Database } = await import("better-sqlite3");
+    mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+
+    const db = new Database(filename);
+    db.pragma("foreign_keys = ON");
+    const source = new SqliteDataSource(db);
+    source.seedIfEmpty();
+
+    console.error(`[DataSource] SQLite database opened: ${filename}`);
+    return source;
+  }
+
+  private seedIfEmpty(): void {
+    const existing = this.db
+      .prepare("SELECT COUNT(*) AS n FROM sqlite_master WHERE type = 'table'")
+      .get() as { n: number };
+    if (existing.n > 0) return;
+
+    this.db.exec(SEED_SCHEMA);
+    const insertUser = this.db.prepare(
+      "INSERT INTO users (id, name, city, joined) VALUES (@id, @name, @city, @joined)",
+    );
+    const insertOrder = this.db.prepare(
+      "INSERT INTO orders (id, user_id, total, created) VALUES (@id, @user_id, @total, @created)",
+    );
+    this.db.transaction(() => {
+      users.forEach((u) => insertUser.run(u));
+      orders.forEach((o) => insertOrder.run(o));
+    })();
+    console.error("[DataSource] Seeded SQLite database with demo data");
+  }
+
+  async listTables(): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+      )
+      .all() as { name: string }[];
+    return rows.map((r) => r.name);
+  }
+
+  async describeTable(table: string): Promise<TableInfo> {
+    await assertTablesExist(this, [table]);
+    const quoted = quoteIdentifier(table);
+
+    const columns = this.db.pragma(`table_info(${quoted})`) as {
+      name: string;
+      type: string;
+      notnull: number;
+      pk: number;
+    }[];
+    const foreignKeys = this.db.pragma(`foreign_key_list(${quoted})`) as {
+      table: string;
+      from: string;
+      to: string;
+    }[];
+    const { n } = this.db
+      .prepare(`SELECT COUNT(*) AS n FROM ${quoted}`)
+      .get() as { n: number };
+
+    return {
+      name: table,
+      columns: columns.map((c) => {
+        const fk = foreignKeys.find((f) => f.from === c.name);
+        return {
+          name: c.name,
+          type: toColumnType(c.type),
+          nullable: c.notnull === 0 && c.pk === 0,
+          primaryKey: c.pk > 0,
+          ...(fk ? { references: { table: fk.table, column: fk.to } } : {}),
+        };
+      }),
+      rowCount: n,
+    };
+  }
+
+  private columnTypes(table: string): ColumnTypes {
+    const columns = this.db.pragma(`table_info(${quoteIdentifier(table)})`) as {
+      name: string;
+      type: string;
+    }[];
+    return Object.fromEntries(
+      columns.map((c) => [c.name, toColumnType(c.type)]),
+    );
+  }
+
+  // Conjuncts SQLite evaluates exactly as the engine go into the WHERE clause;
+  // the rest are left for applyReadOptions
+  private compileWhere(
+    table: string,
+    where?: Expr,
+  ): {
+    sql: string;
+    params: unknown[];
+    remaining?: Expr;
+  } {
+    const types = this.columnTypes(table);
+    const params: unknown[] = [];
+    const clauses: string[] = [];
+    let remaining: Expr | undefined;
+    for (const part of where ? conjuncts(where) : []) {
+      const partParams: unknown[] = [];
+      const sql = toSqlite(part, types, partParams);
+      if (sql === undefined) {
+        remaining = remaining
+          ? { kind: "binary", op: "and", left: remaining, right: part }
+          : part;
+      } else {
+        clauses.push(sql);
+        params.push(...partParams);
+      }
+    }
+    return {
+      sql: clauses.length > 0 ? ` WHERE ${clauses.join(" AND ")}` : "",
+      params,
+      remaining,
+    };
+  }
+
+  async readTable<T extends Row = Row>(
+    table: string,
+    options: ReadOptions = {},
+  ): Promise<T[]> {
+    await assertTablesExist(this, [table]);
+    const { sql, params, remaining } = this.compileWhere(table, options.where);
+    // The LIMIT only goes to SQLite when it filtered every row itself
+    const limited = !remaining && options.limit !== undefined;
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${quoteIdentifier(table)}${sql}${limited ? " LIMIT ?" : ""}`,
+      )
+      .all(...params, ...(limited ? [options.limit] : [])) as Row[];
+    if (!remaining) return rows as T[];
+
+    const columns = (
+      this.db.pragma(`table_info(${quoteIdentifier(table)})`) as {
+        name: string;
+      }[]
+    ).map((c) => c.name);
+    return applyReadOptions(table, columns, rows, {
+      where: remaining,
+      limit: options.limit,
+    }) as T[];
+  }
+
+  async countRows(table: string, where?: Expr): Promise<number> {
+    await assertTablesExist(this, [table]);
+    const { sql, params, remaining } = this.compileWhere(table, where);
+    if (remaining) return (await this.readTable(table, { where })).length;
+    const { n } = this.db
+      .prepare(`SELECT COUNT(*) AS n FROM ${quoteIdentifier(table)}${sql}`)
+      .get(...params) as { n: number };
+    return n;
+  }
+
+  query(
+    statement: SelectStatement,
+    options?: ExecuteOptions,
+  ): Promise<QueryResult> {
+    return executeOnDataSource(this, statement, options);
+  }
+}
@@ -1,4 +1,7 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { MCPRequestHandlerExtra } from "@mastra/mcp";
+import { ToolError } from "./errors";
+import { getCredentialStore } from "./credential-store";
 
 // --- Tool Execute Options Type ---
 // Define our own interface that matches what Mastra provides
@@ -30,83 +33,73 @@ export interface AuthContext {
   sessionId?: string;
 }
 
-// --- Mock Authentication Data ---
-export const mockUsers: Record<string, AuthInfo> = {
-  api_key_admin_123: {
-    token: "api_key_admin_123",
-    clientId: "demo-admin-client",
-    scopes: ["read:all", "write:all", "delete:all"],
-    extra: {
-      userId: "admin-1",
-      username: "admin",
-      role: "admin",
-      permissions: ["read:all", "write:all", "delete:all"],
-    },
-  },
-  api_key_user_456: {
-    token: "api_key_user_456",
-    clientId: "demo-user-client",
-    scopes: ["read:users", "read:orders"],
-    extra: {
-      userId: "user-1",
-      username: "analyst",
-      role: "user",
-      permissions: ["read:users", "read:orders"],
-    },
-  },
-  api_key_readonly_789: {
-    token: "api_key_readonly_789",
-    clientId: "demo-readonly-client",
-    scopes: ["read:users"],
-    extra: {
-      userId: "readonly-1",
-      username: "viewer",
-      role: "readonly",
-      permissions: ["read:users"],
-    },
-  },
-};
+// --- Request Auth Context ---
+// Resource handlers don't receive request options, so the HTTP server runs each
+// request inside this store to make the caller's credentials available to them
+const requestAuth = new AsyncLocalStorage<AuthInfo>();
 
-export function authenticateRequest(options?: ToolExecuteOptions): AuthContext {
+export function runWithAuth<T>(authInfo: AuthInfo, fn: () => T): T {
+  return requestAuth.run(authInfo, fn);
+}
+
+// Resolve the caller without logging; authenticateRequest adds the log lines
+export function resolveAuthContext(options?: ToolExecuteOptions): AuthContext {
   // Check for auth info from HTTP context (when using HTTP transport)
   if (options?.extra?.authInfo) {
     const authInfo = options.extra.authInfo;
-    const userInfo = authInfo?.extra as unknown as DemoUserInfo;
-
-    console.error(
-      `[Auth] HTTP context auth: ${userInfo?.username} (${userInfo?.role})`,
-    );
     return {
       isAuthenticated: true,
       authInfo,
-      user: userInfo,
+      user: authInfo?.extra as unknown as DemoUserInfo,
       sessionId: options.extra.sessionId,
     };
   }
 
-  // For stdio transport or testing, use mock authentication
+  // HTTP requests outside a tool call (e.g. resource reads)
+  const requestAuthInfo = requestAuth.getStore();
+  if (requestAuthInfo) {
+    return {
+      isAuthenticated: true,
+      authInfo: requestAuthInfo,
+      user: requestAuthInfo.extra as unknown as DemoUserInfo,
+    };
+  }
+
+  // For stdio transport or testing, look up DEMO_API_KEY in the credential store
   const apiKey = process.env.DEMO_API_KEY || "api_key_user_456";
-  const authInfo = mockUsers[apiKey];
+  const authInfo = getCredentialStore().authenticate(apiKey);
 
   if (authInfo) {
-    const userInfo = authInfo.extra as unknown as DemoUserInfo;
-    console.error(
-      `[Auth] Environment auth: ${userInfo?.username} (${userInfo?.role})`,
-    );
     return {
       isAuthenticated: true,
       authInfo,
-      user: userInfo,
+      user: authInfo.extra as unknown as DemoUserInfo,
       sessionId: "demo-session",
     };
   }
 
-  console.error(`[Auth] No valid authentication found`);
   return {
     isAuthenticated: false,
   };
 }
 
+export function authenticateRequest(options?: ToolExecuteOptions): AuthContext {
+  const auth = resolveAuthContext(options);
+
+  if (!auth.isAuthenticated) {
+    console.error(`[Auth] No valid authentication found`);
+  } else if (options?.extra?.authInfo) {
+    console.error(
+      `[Auth] HTTP context auth: ${auth.user?.username} (${auth.user?.role})`,
+    );
+  } else {
+    console.error(
+      `[Auth] Environment auth: ${auth.user?.username} (${auth.user?.role})`,
+    );
+  }
+  return auth;
+}
+
 export function checkPermission(
   auth: AuthContext,
   permission: string,
@@ -122,12 +115,32 @@ export function checkPermission(
 
 export function requireAuth(auth: AuthContext, permission?: string): void {
   if (!auth.isAuthenticated) {
-    throw new Error(
+    throw new ToolError(
+      "AUTH_REQUIRED",
       "Authentication required. Please provide valid credentials.",
     );
   }
 
   if (permission && !checkPermission(auth, permission)) {
-    throw new Error(`Insufficient permissions. Required: ${permission}`);
+    throw new ToolError(
+      "FORBIDDEN",
+      `Insufficient scope. Required: ${permission}`,
+      { details: { requiredScopes: [permission] } },
+    );
+  }
+}
+
+export function requireRole(
+  auth: AuthContext,
+  role: DemoUserInfo["role"],
+): void {
+  requireAuth(auth);
+
+  if (auth.user?.role !== role) {
+    throw new ToolError(
+      "FORBIDDEN",
+      `Insufficient permissions. Required role: ${role}`,
+      { details: { requiredRole: role } },
+    );
   }
 }
@@ -0,0 +1,256 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import {
+  authenticateRequest,
+  checkPermission,
+  requireAuth,
+} from "../mcp/utils";
+import {
+  orderMoneyLineage,
+  RedactedColumnSchema,
+  redactRows,
+  tableRowLineage,
+} from "../mcp/redaction";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import { policyId, resolveScoringPolicy } from "../mcp/scoring-policy";
+import {
+  AccountMetricsSchema,
+  currentAccountMetrics,
+  NextTierSchema,
+  redactScores,
+  scoreAccount,
+  SignalContributionsSchema,
+  TierSchema,
+} from "../mcp/account-scoring";
+import { ProviderStatusSchema } from "../mcp/signal-connectors";
+import { rowLimitFor } from "../mcp/query-plan";
+import { withAudit } from "../mcp/audit-log";
+import { ToolError } from "../mcp/errors";
+
+const AccountDetailsInput = z.object({
+  accountId: z.string(),
+  windowDays: z.number().int().positive().max(365).default(90),
+  orderLimit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .default(20)
+    .describe("Most recent orders to include; aggregates cover all orders."),
+  policy: z
+    .string()
+    .optional()
+    .describe(
+      'Scoring policy as "name" (latest version) or "name@version". Defaults to the configured default policy.',
+    ),
+});
+
+const OrdersSection = z.object({
+  recent: z.array(z.record(z.any())), // newest first
+  hasMore: z.boolean(),
+  aggregates: z.object({
+    orderCount: z.number().int().nonnegative(),
+    totalSpend: z.number().nullable(),
+    avgOrderValue: z.number().nullable(),
+    firstOrder: z.string().nullable(),
+    lastOrder: z.string().nullable(),
+  }),
+});
+
+const aggregateLineage = {
+  ...orderMoneyLineage("totalSpend", "avgOrderValue"),
+  firstOrder: ["orders.created"],
+  lastOrder: ["orders.created"],
+};
+
+// --- Tool: account_details (customer 360 for one account) ---
+
+const AccountDetailsOutput = z.object({
+  accountId: z.string(),
+  profile: z.record(z.any()),
+  // null when the caller can't read orders (see metadata.omittedSections)
+  orders: OrdersSection.nullable(),
+  signals: z.object({
+    nps: z.number().nullable(),
+    openP1Tickets: z.number().int().nonnegative().nullable(), // null when support data is unavailable
+    slaBreachesWindow: z.number().int().nonnegative().nullable(),
+    providers: z.array(ProviderStatusSchema),
+  }),
+  health: z.object({
+    healthScore: z.number().min(0).max(100),
+    tier: TierSchema,
+    metrics: AccountMetricsSchema,
+    contributions: SignalContributionsSchema,
+    nextTier: NextTierSchema,
+    reasons: z.array(z.string()),
+    policy: z.string(),
+  }),
+  metadata: z.object({
+    executedBy: z.string(),
+    omittedSections: z.array(
+      z.object({ section: z.string(), reason: z.string() }),
+    ),
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
+
+export const accountDetailsTool = createTool({
+  id: "account_details",
+  description:
+    "Everything about one customer in a single call: profile, order history with aggregates, current external signals (NPS, support), and health score with reasons. Sections the caller lacks permission for are omitted.",
+  inputSchema: AccountDetailsInput,
+  outputSchema: AccountDetailsOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "account_details",
+      inputSchema: AccountDetailsInput,
+      outputSchema: AccountDetailsOutput,
+    },
+    async (context, options) => {
+      const { accountId, windowDays, orderLimit } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth, "read:users");
+      const policy = await resolveScoringPolicy(context.context.policy);
+      const canReadOrders = checkPermission(auth, "read:orders");
+
+      // Row-level security: the account must be visible to the caller
+      const { users, orders, rowPolicies } = await loadVisibleTables(auth, [
+        "users",
+        "orders",
+      ]);
+      const user = users.find((u) => String(u.id) === accountId);
+      if (!user) {
+        throw new ToolError("NOT_FOUND", `Account ${accountId} not found`);
+      }
+      const userOrders = orders
+        .filter((o) => o.user_id === user.id)
+        .sort(
+          (a, b) =>
+            new Date(b.created).getTime() - new Date(a.created).getTime() ||
+            b.id - a.id,
+        );
+
+      console.error(
+        `[account_details] User: ${auth.user?.username}, account: ${accountId}`,
+      );
+
+      // Health score and signals, as compute_account_health would report them today
+      const { metrics, supportAvailable, providers } =
+        await currentAccountMetrics(accountId, userOrders, windowDays);
+      const score = scoreAccount(metrics, policy, supportAvailable);
+
+      // Column redaction: profile and order rows drop hidden columns like run_sql;
+      // fixed-schema fields are masked instead
+      const role = auth.user?.role;
+      const profileRedaction = redactRows(
+        [user],
+        tableRowLineage("users", user),
+        role,
+      );
+      const scoreRedaction = redactScores(
+        [{ metrics, contributions: score.contributions }],
+        role,
+      );
+
+      let ordersSection: z.infer<typeof OrdersSection> | null = null;
+      const orderRedactions: z.infer<typeof RedactedColumnSchema>[] = [];
+      if (canReadOrders) {
+        // Role-based limits (readonly users get at most 10 orders)
+        const { effectiveLimit } = rowLimitFor(role, orderLimit);
+        const recent = userOrders.slice(0, effectiveLimit);
+        const totalSpend = userOrders.reduce((sum, o) => sum + o.total, 0);
+        const recentRedaction = redactRows(
+          recent,
+          recent.length > 0 ? tableRowLineage("orders", recent[0]) : {},
+          role,
+        );
+        const aggregateRedaction = redactRows(
+          [
+            {
+              totalSpend: Math.round(totalSpend * 100) / 100,
+              avgOrderValue:
+                userOrders.length > 0
+                  ? Math.round((totalSpend / userOrders.length) * 100) / 100
+                  : null,
+              firstOrder: userOrders.at(-1)?.created ?? null,
+              lastOrder: userOrders[0]?.created ?? null,
+            },
+          ],
+          aggregateLineage,
+          role,
+          { removeHidden: false },
+        );
+        ordersSection = {
+          recent: recentRedaction.rows,
+          hasMore: userOrders.length > recent.length,
+          aggregates: {
+            orderCount: userOrders.length,
+            ...aggregateRedaction.rows[0],
+          },
+        };
+        orderRedactions.push(
+          ...recentRedaction.redactedColumns.map((c) => ({
+            ...c,
+            column: `orders.recent.${c.column}`,
+          })),
+          ...aggregateRedaction.redactedColumns.map((c) => ({
+            ...c,
+            column: `orders.aggregates.${c.column}`,
+          })),
+        );
+      }
+
+      return {
+        accountId,
+        profile: profileRedaction.rows[0],
+        orders: ordersSection,
+        signals: {
+          nps: metrics.nps,
+          openP1Tickets: supportAvailable ? metrics.openP1Tickets : null,
+          slaBreachesWindow: supportAvailable
+            ? metrics.slaBreachesWindow
+            : null,
+          providers,
+        },
+        health: {
+          healthScore: Math.round(score.score),
+          tier: score.tier,
+          ...scoreRedaction.rows[0],
+          nextTier: score.nextTier,
+          reasons: score.reasons,
+          policy: policyId(policy),
+        },
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+          omittedSections: canReadOrders
+            ? []
+            : [
+                {
+                  section: "orders",
+                  reason: "Insufficient scope. Required: read:orders",
+                },
+              ],
+          redactedColumns: [
+            ...profileRedaction.redactedColumns.map((c) => ({
+              ...c,
+              column: `profile.${c.column}`,
+            })),
+            ...orderRedactions,
+            ...scoreRedaction.redactedColumns.map((c) => ({
+              ...c,
+              column: `health.${c.column}`,
+            })),
+          ],
+          rowPolicies,
+        },
+      };
+    },
+    (_input, output) => ({
+      permission: "read:users",
+      rowCount: output?.orders?.recent.length,
+    }),
+  ),
+});
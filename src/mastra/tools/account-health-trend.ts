@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireAuth } from "../mcp/utils";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import { policyId, resolveScoringPolicy } from "../mcp/scoring-policy";
+import { readSnapshots, snapshotDate } from "../mcp/health-snapshots";
+import { withAudit } from "../mcp/audit-log";
+
+const Tier = z.enum(["good", "watch", "at_risk"]);
+const tierRank: Record<z.infer<typeof Tier>, number> = {
+  at_risk: 0,
+  watch: 1,
+  good: 2,
+};
+
+const AccountHealthTrendInput = z.object({
+  accountIds: z.array(z.string()).min(1).max(50),
+  days: z
+    .number()
+    .int()
+    .positive()
+    .max(365)
+    .default(90)
+    .describe("How many days of history to return."),
+  windowDays: z
+    .number()
+    .int()
+    .positive()
+    .max(365)
+    .default(90)
+    .describe(
+      "The compute_account_health windowDays the snapshots were taken with.",
+    ),
+  policy: z
+    .string()
+    .optional()
+    .describe(
+      'Scoring policy the snapshots were taken with, as "name" or "name@version". Defaults to the configured default policy.',
+    ),
+});
+
+const AccountTrend = z.object({
+  accountId: z.string(),
+  history: z.array(
+    z.object({
+      date: z.string(),
+      healthScore: z.number(),
+      tier: Tier,
+    }),
+  ),
+  transitions: z.array(
+    z.object({
+      date: z.string(),
+      from: Tier,
+      to: Tier,
+      direction: z.enum(["improved", "declined"]),
+    }),
+  ),
+  scoreChange: z.number().nullable(), // latest minus earliest score in the range
+});
+
+const AccountHealthTrendOutput = z.object({
+  accounts: z.array(AccountTrend),
+  // Requested accounts with no visible snapshots in the range
+  missingAccountIds: z.array(z.string()),
+  metadata: z.object({
+    executedBy: z.string(),
+    policy: z.string(),
+    sinceDate: z.string(),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
+
+export const accountHealthTrendTool = createTool({
+  id: "account_health_trend",
+  description:
+    "Score and tier history for one or more accounts from saved compute_account_health snapshots (one per day), with tier transitions flagged.",
+  inputSchema: AccountHealthTrendInput,
+  outputSchema: AccountHealthTrendOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "account_health_trend",
+      inputSchema: AccountHealthTrendInput,
+      outputSchema: AccountHealthTrendOutput,
+    },
+    async (context, options) => {
+      const { accountIds, days, windowDays } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth, "read:users");
+      const policy = policyId(
+        await resolveScoringPolicy(context.context.policy),
+      );
+
+      // Row-level security: only accounts the caller can see in users
+      const { users, rowPolicies } = await loadVisibleTables(auth, ["users"]);
+      const visible = new Set(users.map((u) => String(u.id)));
+
+      const sinceDate = snapshotDate(
+        new Date(Date.now() - days * 24 * 3600 * 1000),
+      );
+      const snapshots = await readSnapshots({
+        accountIds: accountIds.filter((id) => visible.has(id)),
+        policy,
+        windowDays,
+        sinceDate,
+      });
+
+      const accounts = accountIds.flatMap((accountId) => {
+        const history = snapshots
+          .filter((s) => s.accountId === accountId)
+          .map(({ date, healthScore, tier }) => ({
+            date,
+            healthScore,
+            tier,
+          }));
+        if (history.length === 0) return [];
+
+        const transitions = history.slice(1).flatMap((point, i) => {
+          const from = history[i].tier;
+          if (from === point.tier) return [];
+          return [
+            {
+              date: point.date,
+              from,
+              to: point.tier,
+              direction:
+                tierRank[point.tier] > tierRank[from]
+                  ? ("improved" as const)
+                  : ("declined" as const),
+            },
+          ];
+        });
+
+        return [
+          {
+            accountId,
+            history,
+            transitions,
+            scoreChange:
+              history.length > 1
+                ? history[history.length - 1].healthScore -
+                  history[0].healthScore
+                : null,
+          },
+        ];
+      });
+
+      return {
+        accounts,
+        missingAccountIds: accountIds.filter(
+          (id) => !accounts.some((a) => a.accountId === id),
+        ),
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+          policy,
+          sinceDate,
+          rowPolicies,
+        },
+      };
+    },
+    (_input, output) => ({
+      permission: "read:users",
+      rowCount: output?.accounts.length,
+    }),
+  ),
+});
@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireRole } from "../mcp/utils";
+import {
+  AuditEntrySchema,
+  readAuditEntries,
+  withAudit,
+} from "../mcp/audit-log";
+
+const AuditLogInput = z.object({
+  user: z
+    .string()
+    .optional()
+    .describe("Only entries for this userId or username."),
+  tool: z
+    .string()
+    .optional()
+    .describe('Only entries for this tool, e.g. "run_sql".'),
+  since: z
+    .string()
+    .datetime()
+    .optional()
+    .describe("ISO timestamp; only entries at or after this time."),
+  until: z
+    .string()
+    .datetime()
+    .optional()
+    .describe("ISO timestamp; only entries before this time."),
+  limit: z.number().int().positive().max(500).default(50),
+});
+
+const AuditLogOutput = z.object({
+  entries: z.array(AuditEntrySchema),
+  totalMatched: z.number(),
+  metadata: z.object({
+    executedBy: z.string(),
+  }),
+});
+
+export const auditLogTool = createTool({
+  id: "audit_log",
+  description:
+    "Query the persistent audit log of tool calls (who ran what, when, and with what outcome). Admin only.",
+  inputSchema: AuditLogInput,
+  outputSchema: AuditLogOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "audit_log",
+      inputSchema: AuditLogInput,
+      outputSchema: AuditLogOutput,
+    },
+    async (context, options) => {
+      const { user, tool, since, until, limit } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireRole(auth, "admin");
+
+      // Most recent first
+      const matched = await readAuditEntries({ user, tool, since, until });
+      const entries = matched.reverse().slice(0, limit);
+
+      return {
+        entries,
+        totalMatched: matched.length,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+        },
+      };
+    },
+    (_input, output) => ({
+      rowCount: output?.entries.length,
+    }),
+  ),
+});
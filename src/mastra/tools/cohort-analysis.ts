@@ -0,0 +1,282 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireAuth } from "../mcp/utils";
+import type { Order, User } from "../mcp/mock-data";
+import {
+  orderMoneyLineage,
+  RedactedColumnSchema,
+  redactNested,
+  redactRows,
+} from "../mcp/redaction";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import { rowLimitFor } from "../mcp/query-plan";
+import { withAudit } from "../mcp/audit-log";
+
+const CohortAnalysisInput = z.object({
+  cohortBy: z
+    .enum(["joined", "city"])
+    .default("joined")
+    .describe("Group users by when they joined or by their city."),
+  joinedPeriod: z
+    .enum(["month", "quarter", "year"])
+    .default("month")
+    .describe('Bucket size for join dates when cohortBy is "joined".'),
+  period: z
+    .enum(["week", "month", "quarter"])
+    .default("month")
+    .describe(
+      "Length of each curve period, counted from each user's join date.",
+    ),
+  periods: z
+    .number()
+    .int()
+    .positive()
+    .max(24)
+    .default(6)
+    .describe("Number of periods in each curve, starting at period 0."),
+  limit: z.number().int().positive().max(100).default(24),
+});
+
+const CurvePoint = z.object({
+  period: z.number().int().nonnegative(), // 0 = the period the user joined in
+  // Users whose period has started; later periods only count users who have reached them
+  eligibleUsers: z.number().int().nonnegative(),
+  activeUsers: z.number().int().nonnegative(), // eligible users with an order in the period
+  retention: z.number().nullable(), // activeUsers / eligibleUsers, null if none are eligible
+  orders: z.number().int().nonnegative(),
+  ordersPerUser: z.number().nullable(),
+  spend: z.number(),
+  cumulativeSpend: z.number(), // spend in periods 0..period by eligible users
+  cumulativeSpendPerUser: z.number().nullable(),
+});
+
+const Cohort = z.object({
+  cohort: z.string(), // e.g. "2025-01", "2025-Q1", "2025" or a city name
+  users: z.number().int().positive(),
+  curve: z.array(CurvePoint),
+});
+
+const cohortLineage = {
+  joined: { cohort: ["users.joined"] },
+  city: { cohort: ["users.city"] },
+};
+const curveLineage = orderMoneyLineage(
+  "spend",
+  "cumulativeSpend",
+  "cumulativeSpendPerUser",
+);
+
+// ---- Period Arithmetic (UTC calendar) ----
+// Months are added to the calendar month and the day is clamped to its last
+// day, so a user who joined on Jan 31 starts period 1 on Feb 28, not Mar 3
+function addPeriods(
+  date: Date,
+  count: number,
+  period: z.infer<typeof CohortAnalysisInput>["period"],
+): Date {
+  const next = new Date(date.getTime());
+  if (period === "week") {
+    next.setUTCDate(next.getUTCDate() + 7 * count);
+    return next;
+  }
+  const month = next.getUTCMonth() + (period === "quarter" ? 3 : 1) * count;
+  const lastDay = new Date(
+    Date.UTC(next.getUTCFullYear(), month + 1, 0),
+  ).getUTCDate();
+  next.setUTCFullYear(
+    next.getUTCFullYear(),
+    month,
+    Math.min(next.getUTCDate(), lastDay),
+  );
+  return next;
+}
+
+function joinedCohort(
+  joined: string,
+  joinedPeriod: z.infer<typeof CohortAnalysisInput>["joinedPeriod"],
+): string {
+  const [year, month] = joined.split("-");
+  if (joinedPeriod === "year") return year;
+  if (joinedPeriod === "quarter") {
+    return `${year}-Q${Math.floor((Number(month) - 1) / 3) + 1}`;
+  }
+  return `${year}-${month}`;
+}
+
+const round = (v: number, digits = 2) =>
+  Math.round(v * 10 ** digits) / 10 ** digits;
+
+// ---- Cohort Curves ----
+function buildCurve(
+  members: User[],
+  ordersByUser: Map<User["id"], Order[]>,
+  period: z.infer<typeof CohortAnalysisInput>["period"],
+  periods: number,
+  now: Date,
+): z.infer<typeof CurvePoint>[] {
+  // Per user: orders and spend in each period since joining
+  const perUser = members.map((user) => {
+    const joined = new Date(user.joined);
+    const starts = Array.from({ length: periods + 1 }, (_, k) =>
+      addPeriods(joined, k, period).getTime(),
+    );
+    const orders = new Array<number>(periods).fill(0);
+    const spend = new Array<number>(periods).fill(0);
+    for (const order of ordersByUser.get(user.id) ?? []) {
+      const at = new Date(order.created).getTime();
+      if (at < starts[0]) continue;
+      const k = starts.findIndex((_, i) => i < periods && at < starts[i + 1]);
+      if (k === -1) continue; // after the last period
+      orders[k] += 1;
+      spend[k] += order.total;
+    }
+    return { starts, orders, spend };
+  });
+
+  return Array.from({ length: periods }, (_, k) => {
+    const eligible = perUser.filter((u) => u.starts[k] <= now.getTime());
+    const activeUsers = eligible.filter((u) => u.orders[k] > 0).length;
+    const orders = eligible.reduce((sum, u) => sum + u.orders[k], 0);
+    const spend = eligible.reduce((sum, u) => sum + u.spend[k], 0);
+    const cumulativeSpend = eligible.reduce(
+      (sum, u) => sum + u.spend.slice(0, k + 1).reduce((a, b) => a + b, 0),
+      0,
+    );
+    const perEligible = (v: number, digits?: number) =>
+      eligible.length > 0 ? round(v / eligible.length, digits) : null;
+
+    return {
+      period: k,
+      eligibleUsers: eligible.length,
+      activeUsers,
+      retention: perEligible(activeUsers, 3),
+      orders,
+      ordersPerUser: perEligible(orders),
+      spend: round(spend),
+      cumulativeSpend: round(cumulativeSpend),
+      cumulativeSpendPerUser: perEligible(cumulativeSpend),
+    };
+  });
+}
+
+// --- Tool: cohort_analysis (retention, order frequency and spend by cohort) ---
+
+const CohortAnalysisOutput = z.object({
+  cohorts: z.array(Cohort),
+  metadata: z.object({
+    executedBy: z.string(),
+    totalCohorts: z.number(), // before the limit
+    filteredByRole: z.boolean(),
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
+
+export const cohortAnalysisTool = createTool({
+  id: "cohort_analysis",
+  description:
+    "Group users into cohorts by join period or city and return retention, order frequency and cumulative spend curves over periods since each user joined.",
+  inputSchema: CohortAnalysisInput,
+  outputSchema: CohortAnalysisOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "cohort_analysis",
+      inputSchema: CohortAnalysisInput,
+      outputSchema: CohortAnalysisOutput,
+    },
+    async (context, options) => {
+      const { cohortBy, joinedPeriod, period, periods, limit } =
+        context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth, "read:users");
+      requireAuth(auth, "read:orders");
+
+      console.error(
+        `[cohort_analysis] User: ${auth.user?.username}, cohorts by ${cohortBy}, ${periods} ${period} periods`,
+      );
+
+      // Row-level security is applied before any grouping or limits
+      const { users, orders, rowPolicies } = await loadVisibleTables(auth, [
+        "users",
+        "orders",
+      ]);
+
+      const ordersByUser = new Map<User["id"], Order[]>();
+      for (const order of orders) {
+        const list = ordersByUser.get(order.user_id) ?? [];
+        list.push(order);
+        ordersByUser.set(order.user_id, list);
+      }
+
+      const groups = new Map<string, User[]>();
+      for (const user of users) {
+        const key =
+          cohortBy === "joined"
+            ? joinedCohort(user.joined, joinedPeriod)
+            : user.city;
+        groups.set(key, [...(groups.get(key) ?? []), user]);
+      }
+
+      // Join cohorts in date order; cities largest first
+      const keys = [...groups.keys()].sort((a, b) =>
+        cohortBy === "joined"
+          ? a.localeCompare(b)
+          : groups.get(b)!.length - groups.get(a)!.length || a.localeCompare(b),
+      );
+
+      // Role-based limits (readonly users get at most 10 cohorts)
+      const { effectiveLimit, filteredByRole } = rowLimitFor(
+        auth.user?.role,
+        limit,
+      );
+      const now = new Date();
+      const cohorts = keys.slice(0, effectiveLimit).map((key) => ({
+        cohort: key,
+        users: groups.get(key)!.length,
+        curve: buildCurve(groups.get(key)!, ordersByUser, period, periods, now),
+      }));
+
+      // Column redaction; the output schema is fixed, so hidden fields are masked
+      const role = auth.user?.role;
+      const cohortRedaction = redactRows(
+        cohorts,
+        cohortLineage[cohortBy],
+        role,
+        { removeHidden: false },
+      );
+      const pointRedaction = redactNested(
+        cohorts.map((c) => c.curve),
+        curveLineage,
+        role,
+        { removeHidden: false },
+      );
+      const redactedCohorts = cohortRedaction.rows.map((c, i) => ({
+        ...c,
+        curve: pointRedaction.rows[i],
+      }));
+
+      return {
+        cohorts: redactedCohorts,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+          totalCohorts: keys.length,
+          filteredByRole,
+          redactedColumns: [
+            ...cohortRedaction.redactedColumns,
+            ...pointRedaction.redactedColumns.map((c) => ({
+              ...c,
+              column: `curve.${c.column}`,
+            })),
+          ],
+          rowPolicies,
+        },
+      };
+    },
+    (_input, output) => ({
+      permission: "read:users, read:orders",
+      rowCount: output?.cohorts.length,
+    }),
+  ),
+});
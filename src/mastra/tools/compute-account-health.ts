@@ -1,248 +1,223 @@
 import { z } from "zod";
 import { createTool } from "@mastra/core/tools";
 import { authenticateRequest, requireAuth } from "../mcp/utils";
-import { orders, users } from "../mcp/mock-data";
-import { MCPTool } from "@mastra/mcp";
+import {
+  accountNameLineage,
+  RedactedColumnSchema,
+  redactRows,
+} from "../mcp/redaction";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import {
+  decodeCursor,
+  encodeCursor,
+  queryFingerprint,
+} from "../mcp/pagination";
+import { policyId, resolveScoringPolicy } from "../mcp/scoring-policy";
+import {
+  AccountMetricsSchema,
+  analysisWindows,
+  NextTierSchema,
+  orderMetrics,
+  redactScores,
+  scoreAccount,
+  SignalContributionsSchema,
+  TierSchema,
+} from "../mcp/account-scoring";
+import {
+  fetchExternalSignals,
+  ProviderStatusSchema,
+} from "../mcp/signal-connectors";
+import { previousSnapshots, saveSnapshots } from "../mcp/health-snapshots";
+import {
+  filterBySegment,
+  requireSegmentAccess,
+  resolveSegment,
+} from "../mcp/segments";
+import { withAudit } from "../mcp/audit-log";
 
 const AccountHealthInput = z.object({
-  segment: z.enum(["all", "inactive", "highValue"]).default("all"),
+  segment: z
+    .string()
+    .default("all")
+    .describe(
+      'Named segment from the segments://account-health resource, e.g. "inactive" or "highValue". "all" applies no filter.',
+    ),
+  segmentFilter: z
+    .string()
+    .optional()
+    .describe(
+      'Inline filter over account metrics, ANDed with segment, e.g. "spendWindow >= 500 AND openP1Tickets > 0". Fields: lastOrderDays, orderCountWindow, spendWindow, spendPrevWindow, spendDeltaPct, nps, openP1Tickets, slaBreachesWindow.',
+    ),
   windowDays: z.number().int().positive().max(365).default(90),
   limit: z.number().int().positive().max(200).default(50),
   includeReasons: z.boolean().default(true),
+  changedSinceLastSnapshot: z
+    .boolean()
+    .default(false)
+    .describe(
+      "Only return accounts whose score or tier changed since their last snapshot from an earlier day. Accounts with no earlier snapshot count as changed.",
+    ),
+  policy: z
+    .string()
+    .optional()
+    .describe(
+      'Scoring policy as "name" (latest version) or "name@version", e.g. "standard@1". Defaults to the configured default policy.',
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Opaque nextCursor from a previous call with the same arguments, to fetch the next page.",
+    ),
 });
 
 const AccountHealthRow = z.object({
   accountId: z.string(),
   name: z.string(),
   healthScore: z.number().min(0).max(100),
-  tier: z.enum(["good", "watch", "at_risk"]),
-  metrics: z.object({
-    lastOrderDays: z.number().int().nonnegative(),
-    orderCountWindow: z.number().int().nonnegative(),
-    spendWindow: z.number().nonnegative(),
-    spendPrevWindow: z.number().nonnegative(),
-    spendDeltaPct: z.number(), // -100..+∞
-    nps: z.number().nullable(), // from external system
-    openP1Tickets: z.number().int().nonnegative(), // external
-    slaBreachesWindow: z.number().int().nonnegative(), // external
-  }),
+  tier: TierSchema,
+  metrics: AccountMetricsSchema,
+  contributions: SignalContributionsSchema,
+  nextTier: NextTierSchema,
+  // Most recent snapshot from an earlier day under the same policy and window
+  sinceLastSnapshot: z
+    .object({
+      date: z.string(),
+      healthScore: z.number(),
+      tier: TierSchema,
+      scoreDelta: z.number(),
+      tierChanged: z.boolean(),
+    })
+    .nullable(),
   reasons: z.array(z.string()).optional(),
+  policy: z.string(), // scoring policy version that produced this score, e.g. "standard@1"
 });
 const AccountHealthOutput = z.array(AccountHealthRow);
 
-// ---- Mock External Systems (simulating real integrations) ----
-async function fetchNpsByAccount(
-  accountIds: string[],
-): Promise<Record<string, number | null>> {
-  // Simulate NPS API call with realistic delays and some missing data
-  await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 100));
-
-  return Object.fromEntries(
-    accountIds.map((id) => {
-      const userId = parseInt(id);
-      // Some users don't have NPS data (20% chance)
-      if (Math.random() < 0.2) return [id, null];
+// --- Tool 2: compute_account_health (workflow combining multiple systems) ---
 
-      // Generate realistic NPS scores based on user activity patterns
-      const baseScore = 50 + (userId % 40) - 20; // Range: 30-70
-      const variation = (Math.random() - 0.5) * 20; // ±10 variation
-      return [
-        id,
-        Math.max(0, Math.min(100, Math.round(baseScore + variation))),
-      ];
+const ComputeAccountHealthOutput = z.object({
+  accounts: AccountHealthOutput,
+  hasMore: z.boolean(),
+  nextCursor: z.string().optional(),
+  summary: z.object({
+    policy: z.string(),
+    segment: z.object({
+      name: z.string(),
+      filter: z.string().optional(), // the full expression that was applied
     }),
-  );
-}
-
-async function fetchSupportSignals(
-  accountIds: string[],
-  sinceIso: string,
-): Promise<
-  Record<string, { openP1Tickets: number; slaBreachesWindow: number }>
-> {
-  // Simulate support system API call
-  await new Promise((resolve) => setTimeout(resolve, 30 + Math.random() * 70));
-
-  return Object.fromEntries(
-    accountIds.map((id) => {
-      const userId = parseInt(id);
-      // Higher-ID users tend to have more support issues (simulating enterprise customers)
-      const riskFactor = userId > 15 ? 2 : 1;
-      return [
-        id,
-        {
-          openP1Tickets:
-            Math.random() < 0.1 * riskFactor ? Math.ceil(Math.random() * 3) : 0,
-          slaBreachesWindow:
-            Math.random() < 0.15 * riskFactor
-              ? Math.ceil(Math.random() * 2)
-              : 0,
-        },
-      ];
+    totalAnalyzed: z.number(),
+    segmentBreakdown: z.record(z.number()),
+    avgHealthScore: z.number(),
+    externalDataCoverage: z.object({
+      npsAvailable: z.number(),
+      supportDataAvailable: z.number(),
+      providers: z.array(ProviderStatusSchema), // which providers failed or were degraded, and why
     }),
-  );
-}
-
-// ---- Account Health Scoring Logic ----
-function scoreAccount(m: z.infer<typeof AccountHealthRow>["metrics"]): {
-  score: number;
-  tier: "good" | "watch" | "at_risk";
-  reasons: string[];
-} {
-  const reasons: string[] = [];
-  const clamp = (v: number, lo: number, hi: number) =>
-    Math.max(lo, Math.min(hi, v));
-
-  // Signals (normalize to 0..100)
-  const recency = clamp(100 - m.lastOrderDays, 0, 100); // more recent = better
-  const momentum = clamp((m.spendDeltaPct + 100) / 2, 0, 100); // -100% => 0, +100% => 100
-  const satisfaction = m.nps == null ? 50 : clamp(m.nps, 0, 100); // missing => neutral
-  const reliabilityPenalty = clamp(
-    100 - (m.openP1Tickets * 25 + m.slaBreachesWindow * 15),
-    0,
-    100,
-  );
-
-  // Weighted score
-  const score = clamp(
-    recency * 0.3 +
-      momentum * 0.3 +
-      satisfaction * 0.25 +
-      reliabilityPenalty * 0.15,
-    0,
-    100,
-  );
-
-  // Reasons (deterministic, policy-like)
-  if (m.lastOrderDays > 60) reasons.push("No recent orders (>60 days)");
-  if (m.spendDeltaPct < -30) reasons.push("Spend down >30% vs prior window");
-  if ((m.nps ?? 50) < 30) reasons.push("Low NPS score");
-  if (m.openP1Tickets > 0)
-    reasons.push(`${m.openP1Tickets} open P1 support ticket(s)`);
-  if (m.slaBreachesWindow > 0)
-    reasons.push(`${m.slaBreachesWindow} recent SLA breach(es)`);
-  if (m.orderCountWindow === 0) reasons.push("No orders in analysis window");
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
 
-  const tier = score >= 75 ? "good" : score >= 50 ? "watch" : "at_risk";
-  return { score, tier, reasons };
-}
-// --- Tool 2: compute_account_health (workflow combining multiple systems) ---
 export const computeAccountHealthTool = createTool({
   id: "compute_account_health",
   description:
     "Analyze customer health by combining order data with external signals (NPS, support). Returns risk scores, segments, and actionable insights. Demonstrates multi-system workflow patterns.",
   inputSchema: AccountHealthInput,
-  outputSchema: z.object({
-    accounts: AccountHealthOutput,
-    summary: z.object({
-      totalAnalyzed: z.number(),
-      segmentBreakdown: z.record(z.number()),
-      avgHealthScore: z.number(),
-      externalDataCoverage: z.object({
-        npsAvailable: z.number(),
-        supportDataAvailable: z.number(),
-      }),
-    }),
-  }),
+  outputSchema: ComputeAccountHealthOutput,
   // @ts-expect-error TODO MCPTool type is not compatible with createTool
-  execute: (async (context, options) => {
-    try {
+  execute: withAudit(
+    {
+      id: "compute_account_health",
+      inputSchema: AccountHealthInput,
+      outputSchema: ComputeAccountHealthOutput,
+    },
+    async (context, options) => {
       const auth = authenticateRequest(options);
       requireAuth(auth, "read:users");
 
-      const { segment, windowDays, limit, includeReasons } = context.context;
+      const {
+        windowDays,
+        limit,
+        includeReasons,
+        changedSinceLastSnapshot,
+        cursor,
+      } = context.context;
+
+      // Pin the exact policy version so every page is scored the same way
+      const policy = await resolveScoringPolicy(context.context.policy);
+      const policyVersion = policyId(policy);
+      const segment = await resolveSegment(
+        context.context.segment,
+        context.context.segmentFilter,
+      );
+      requireSegmentAccess(segment, auth.user?.role);
+
+      // Resume from a cursor issued to this caller for the same analysis
+      const fingerprint = queryFingerprint({
+        segment: segment.filter ?? segment.name,
+        windowDays,
+        includeReasons,
+        changedSinceLastSnapshot,
+        policy: policyVersion,
+      });
+      const pageOffset = cursor
+        ? decodeCursor(cursor, auth, "compute_account_health", fingerprint)
+        : 0;
 
       console.error(
         `[compute_account_health] Authenticated as: ${auth.user?.username} (${auth.user?.role})`,
       );
       console.error(
-        `[compute_account_health] Analyzing segment: ${segment}, window: ${windowDays} days, limit: ${limit}`,
+        `[compute_account_health] Analyzing segment: ${segment.name}, window: ${windowDays} days, limit: ${limit}`,
       );
 
       // Compute time windows (current vs previous of equal length)
-      const now = new Date();
-      const since = new Date(now.getTime() - windowDays * 24 * 3600 * 1000);
-      const prevSince = new Date(
-        since.getTime() - windowDays * 24 * 3600 * 1000,
-      );
+      const windows = analysisWindows(windowDays);
 
       // Step 1: Aggregate per-account metrics from order data
-      const metrics = users.map((user) => {
-        // Find last order date
-        const userOrders = orders.filter((o) => o.user_id === user.id);
-        const lastOrder =
-          userOrders.length > 0
-            ? Math.max(...userOrders.map((o) => new Date(o.created).getTime()))
-            : 0;
-        const lastOrderDays =
-          lastOrder > 0
-            ? Math.floor((now.getTime() - lastOrder) / (24 * 3600 * 1000))
-            : 999;
-
-        // Current window metrics
-        const windowOrders = userOrders.filter(
-          (o) => new Date(o.created).getTime() >= since.getTime(),
-        );
-        const orderCountWindow = windowOrders.length;
-        const spendWindow = windowOrders.reduce((sum, o) => sum + o.total, 0);
-
-        // Previous window metrics
-        const prevWindowOrders = userOrders.filter((o) => {
-          const orderTime = new Date(o.created).getTime();
-          return (
-            orderTime >= prevSince.getTime() && orderTime < since.getTime()
-          );
-        });
-        const spendPrevWindow = prevWindowOrders.reduce(
-          (sum, o) => sum + o.total,
-          0,
-        );
-
-        // Calculate spend delta percentage
-        const spendDeltaPct =
-          spendWindow === 0 && spendPrevWindow === 0
-            ? 0
-            : ((spendWindow - spendPrevWindow) / (spendPrevWindow || 1)) * 100;
-
-        return {
-          accountId: String(user.id),
-          name: user.name,
-          core: {
-            lastOrderDays,
-            orderCountWindow,
-            spendWindow,
-            spendPrevWindow,
-            spendDeltaPct,
-          },
-        };
-      });
-
-      // Step 2: Apply segment filtering (business logic, not just SQL)
-      const filtered = metrics
-        .filter((m) => {
-          if (segment === "inactive") return m.core.lastOrderDays > 45;
-          if (segment === "highValue") return m.core.spendWindow >= 100;
-          return true; // "all"
-        })
-        .slice(0, 500); // Safety cap before external API calls
+      // Row-level security is applied before any aggregation or limits
+      const { users, orders, rowPolicies } = await loadVisibleTables(auth, [
+        "users",
+        "orders",
+      ]);
+      const metrics = users.map((user) => ({
+        accountId: String(user.id),
+        name: user.name,
+        core: orderMetrics(
+          orders.filter((o) => o.user_id === user.id),
+          windows,
+        ),
+      }));
+
+      // Step 2: Apply segment filtering (business logic, not just SQL).
+      // Filters on order metrics run now, so fewer accounts hit external APIs;
+      // filters that read NPS or support fields run after Step 4
+      const filtered = (
+        segment.needsSignals
+          ? metrics
+          : filterBySegment(metrics, segment, (m) => m.core)
+      ).slice(0, 500); // Safety cap before external API calls
 
       console.error(
         `[compute_account_health] Filtered to ${filtered.length} accounts for analysis`,
       );
 
-      // Step 3: Fetch external signals (NPS and support data)
+      // Step 3: Fetch external signals (NPS and support data) via the configured connectors.
+      // Recently fetched accounts come from the signal cache. Each provider has its
+      // own timeout, retries and circuit breaker; scoring continues with whatever
+      // signals arrived
       const accountIds = filtered.map((f) => f.accountId);
       console.error(
         `[compute_account_health] Fetching external data for ${accountIds.length} accounts...`,
       );
 
-      const [npsMap, supportMap] = await Promise.all([
-        fetchNpsByAccount(accountIds),
-        fetchSupportSignals(accountIds, since.toISOString()),
-      ]);
+      const signals = await fetchExternalSignals(accountIds, windowDays);
+      const npsMap = signals.nps ?? {};
+      const supportMap = signals.support ?? {};
 
       // Step 4: Combine all signals and compute health scores
-      const scored = filtered.map((f) => {
+      const allScored = filtered.map((f) => {
         const metrics = {
           lastOrderDays: f.core.lastOrderDays,
           orderCountWindow: f.core.orderCountWindow,
@@ -254,7 +229,11 @@ export const computeAccountHealthTool = createTool({
           slaBreachesWindow: supportMap[f.accountId]?.slaBreachesWindow ?? 0,
         };
 
-        const scoreResult = scoreAccount(metrics);
+        const scoreResult = scoreAccount(
+          metrics,
+          policy,
+          f.accountId in supportMap,
+        );
 
         return {
           accountId: f.accountId,
@@ -262,12 +241,51 @@ export const computeAccountHealthTool = createTool({
           healthScore: Math.round(scoreResult.score),
           tier: scoreResult.tier,
           metrics,
+          contributions: scoreResult.contributions,
+          nextTier: scoreResult.nextTier,
           ...(includeReasons ? { reasons: scoreResult.reasons } : {}),
+          policy: policyVersion,
         };
       });
+      const scored = segment.needsSignals
+        ? filterBySegment(allScored, segment, (a) => a.metrics)
+        : allScored;
+
+      // Step 5: Compare with each account's last snapshot, then record today's
+      // (first page only, so paging through results doesn't rewrite it)
+      const snapshotSetup = { policy: policyVersion, windowDays };
+      const previous = await previousSnapshots(
+        scored.map((a) => a.accountId),
+        snapshotSetup,
+      );
+      if (pageOffset === 0) await saveSnapshots(scored, snapshotSetup);
 
-      // Step 5: Sort by health score (worst first for action prioritization)
-      scored.sort(
+      const compared = scored.map((a) => {
+        const last = previous.get(a.accountId);
+        return {
+          ...a,
+          sinceLastSnapshot: last
+            ? {
+                date: last.date,
+                healthScore: last.healthScore,
+                tier: last.tier,
+                scoreDelta: a.healthScore - last.healthScore,
+                tierChanged: a.tier !== last.tier,
+              }
+            : null,
+        };
+      });
+      const candidates = changedSinceLastSnapshot
+        ? compared.filter(
+            (a) =>
+              !a.sinceLastSnapshot ||
+              a.sinceLastSnapshot.scoreDelta !== 0 ||
+              a.sinceLastSnapshot.tierChanged,
+          )
+        : compared;
+
+      // Step 6: Sort by health score (worst first for action prioritization)
+      candidates.sort(
         (a, b) =>
           a.healthScore - b.healthScore ||
           a.accountId.localeCompare(b.accountId),
@@ -276,9 +294,10 @@ export const computeAccountHealthTool = createTool({
       // Apply role-based limits
       const roleLimit =
         auth.user?.role === "readonly" ? Math.min(limit, 10) : limit;
-      const finalResults = scored.slice(0, roleLimit);
+      const finalResults = candidates.slice(pageOffset, pageOffset + roleLimit);
+      const hasMore = candidates.length > pageOffset + roleLimit;
 
-      // Step 6: Generate summary statistics
+      // Step 7: Generate summary statistics
       const segmentBreakdown = finalResults.reduce(
         (acc, account) => {
           acc[account.tier] = (acc[account.tier] || 0) + 1;
@@ -300,37 +319,62 @@ export const computeAccountHealthTool = createTool({
       ).length;
       const supportDataAvailable = Object.keys(supportMap).length;
 
+      // Column redaction; the output schema is fixed, so hidden fields are masked
+      const role = auth.user?.role;
+      const accountRedaction = redactRows(
+        finalResults,
+        accountNameLineage,
+        role,
+        {
+          removeHidden: false,
+        },
+      );
+      const scoreRedaction = redactScores(accountRedaction.rows, role);
+      const accounts = scoreRedaction.rows;
+      const redactedColumns = [
+        ...accountRedaction.redactedColumns,
+        ...scoreRedaction.redactedColumns,
+      ];
+
       console.error(
         `[compute_account_health] Completed analysis: ${finalResults.length} accounts, avg score: ${avgHealthScore}`,
       );
 
       return {
-        accounts: finalResults,
+        accounts,
+        hasMore,
+        ...(hasMore
+          ? {
+              nextCursor: encodeCursor(
+                auth,
+                "compute_account_health",
+                fingerprint,
+                pageOffset + finalResults.length,
+              ),
+            }
+          : {}),
         summary: {
+          policy: policyVersion,
+          segment: {
+            name: segment.name,
+            ...(segment.filter ? { filter: segment.filter } : {}),
+          },
           totalAnalyzed: finalResults.length,
           segmentBreakdown,
           avgHealthScore,
           externalDataCoverage: {
             npsAvailable,
             supportDataAvailable,
+            providers: signals.providers,
           },
+          redactedColumns,
+          rowPolicies,
         },
       };
-    } catch (error) {
-      // Return structured error response instead of throwing
-      console.error(`[compute_account_health] Error: ${error}`);
-      return {
-        accounts: [],
-        summary: {
-          totalAnalyzed: 0,
-          segmentBreakdown: {},
-          avgHealthScore: 0,
-          externalDataCoverage: {
-            npsAvailable: 0,
-            supportDataAvailable: 0,
-          },
-        },
-      };
-    }
-  }) as MCPTool<typeof AccountHealthInput>["execute"],
+    },
+    (_input, output) => ({
+      permission: "read:users",
+      rowCount: output?.accounts.length,
+    }),
+  ),
 });
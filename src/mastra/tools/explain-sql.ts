@@ -0,0 +1,77 @@
+import { z } from "zod";
+import { authenticateRequest, requireAuth } from "../mcp/utils";
+import { getDataSource } from "../mcp/data-source";
+import {
+  bindParameters,
+  parseSelect,
+  QueryParamsSchema,
+} from "../mcp/sql-parser";
+import {
+  planQuery,
+  QueryPlanSchema,
+  requiredPermissionsFor,
+} from "../mcp/query-plan";
+import { withAudit } from "../mcp/audit-log";
+import { createTool } from "@mastra/core/tools";
+
+const ExplainSqlInput = z.object({
+  sql: z.string().describe("The SELECT query you would pass to run_sql."),
+  params: QueryParamsSchema.optional().describe(
+    "The bind values you would pass to run_sql.",
+  ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(200)
+    .default(50)
+    .describe("The run_sql page size to plan for."),
+});
+
+const ExplainSqlOutput = z.object({
+  plan: QueryPlanSchema,
+  metadata: z.object({
+    executedBy: z.string(),
+  }),
+});
+
+export const explainSqlTool = createTool({
+  id: "explain_sql",
+  description:
+    "Dry-run a run_sql query: returns the plan (tables, joins, filters, estimated rows, required permissions, implicit LIMIT) without executing it. Use before expensive queries.",
+  inputSchema: ExplainSqlInput,
+  outputSchema: ExplainSqlOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "explain_sql",
+      inputSchema: ExplainSqlInput,
+      outputSchema: ExplainSqlOutput,
+    },
+    async (context, options) => {
+      const { sql, params, limit } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth);
+
+      // Same guardrails as run_sql: parse, bind, check the caller may read every
+      // table the query touches, then plan against table metadata
+      const statement = bindParameters(parseSelect(sql), params);
+      const dataSource = await getDataSource();
+      const permissions = await requiredPermissionsFor(dataSource, statement);
+      permissions.forEach((permission) => requireAuth(auth, permission));
+      const plan = await planQuery(dataSource, statement, auth, limit);
+
+      return {
+        plan,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+        },
+      };
+    },
+    (input, output) => ({
+      sql: input.sql,
+      permission: output?.plan.permissions.required.join(", "),
+    }),
+  ),
+});
@@ -1,2 +1,10 @@
+export * from "./account-details";
+export * from "./account-health-trend";
+export * from "./audit-log";
+export * from "./cohort-analysis";
 export * from "./compute-account-health";
+export * from "./explain-sql";
+export * from "./invalidate-signal-cache";
+export * from "./revenue-timeseries";
+export * from "./simulate-account-health";
 export * from "./sql-tool";
@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireRole } from "../mcp/utils";
+import { getSignalCache, SignalProviderSchema } from "../mcp/signal-cache";
+import { withAudit } from "../mcp/audit-log";
+
+const InvalidateSignalCacheInput = z.object({
+  provider: SignalProviderSchema.optional().describe(
+    "Only entries from this provider. Omit for both.",
+  ),
+  accountIds: z
+    .array(z.string())
+    .min(1)
+    .optional()
+    .describe("Only entries for these accounts. Omit for every account."),
+});
+
+const InvalidateSignalCacheOutput = z.object({
+  invalidated: z.number().int().nonnegative(),
+  remaining: z.number().int().nonnegative(), // unexpired entries left
+  store: z.string(),
+  metadata: z.object({
+    executedBy: z.string(),
+  }),
+});
+
+export const invalidateSignalCacheTool = createTool({
+  id: "invalidate_signal_cache",
+  description:
+    "Drop cached NPS and support signals so the next analysis fetches them from the providers again, e.g. after a provider fixed bad data. Admin only.",
+  inputSchema: InvalidateSignalCacheInput,
+  outputSchema: InvalidateSignalCacheOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "invalidate_signal_cache",
+      inputSchema: InvalidateSignalCacheInput,
+      outputSchema: InvalidateSignalCacheOutput,
+    },
+    async (context, options) => {
+      const { provider, accountIds } = context.context;
+      const auth = authenticateRequest(options);
+      requireRole(auth, "admin");
+
+      const cache = await getSignalCache();
+      const invalidated = await cache.invalidate({ provider, accountIds });
+
+      console.error(
+        `[invalidate_signal_cache] ${auth.user?.username}: removed ${invalidated} entries (provider: ${provider ?? "all"}, accounts: ${accountIds?.join(",") ?? "all"})`,
+      );
+
+      return {
+        invalidated,
+        remaining: await cache.size(),
+        store: cache.kind,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+        },
+      };
+    },
+    (_input, output) => ({
+      rowCount: output?.invalidated,
+    }),
+  ),
+});
@@ -0,0 +1,365 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireAuth } from "../mcp/utils";
+import type { DemoUserInfo } from "../mcp/utils";
+import type { Order, User } from "../mcp/mock-data";
+import {
+  orderMoneyLineage,
+  RedactedColumnSchema,
+  redactNested,
+} from "../mcp/redaction";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import { analysisWindows, orderMetrics } from "../mcp/account-scoring";
+import {
+  canFilterSegment,
+  filterBySegment,
+  listSegments,
+  requireSegmentAccess,
+  Segment,
+} from "../mcp/segments";
+import { fetchExternalSignals } from "../mcp/signal-connectors";
+import { withAudit } from "../mcp/audit-log";
+import { ToolError } from "../mcp/errors";
+
+// A real calendar day: Date would roll 2025-02-30 over into March
+const IsoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")
+  .refine(
+    (day) => {
+      const date = new Date(day);
+      return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === day;
+    },
+    { message: "Not a calendar date" },
+  );
+
+const Interval = z.enum(["day", "week", "month"]);
+
+const RevenueTimeseriesInput = z.object({
+  interval: Interval.default("month").describe(
+    "Bucket size. Weeks start on Monday; all dates are UTC.",
+  ),
+  since: IsoDate.optional().describe(
+    "First day to include. Defaults to 12 intervals before until.",
+  ),
+  until: IsoDate.optional().describe("Last day to include. Defaults to today."),
+  groupBy: z
+    .enum(["none", "city", "segment"])
+    .default("none")
+    .describe(
+      "One series for all orders, one per customer city, or one per account segment (see the segments://account-health resource). An account can be in several segments.",
+    ),
+  segments: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Segments to chart when groupBy is "segment". Defaults to every registered segment your role can filter on.',
+    ),
+  windowDays: z
+    .number()
+    .int()
+    .positive()
+    .max(365)
+    .default(90)
+    .describe(
+      "Analysis window used to decide segment membership, as in compute_account_health.",
+    ),
+});
+
+const SeriesPoint = z.object({
+  period: z.string(), // first day of the bucket, YYYY-MM-DD
+  revenue: z.number(),
+  orders: z.number().int().nonnegative(),
+  aov: z.number().nullable(), // average order value; null when there were no orders
+  // Change vs the previous bucket; null for the first bucket or when the previous was 0
+  revenueChangePct: z.number().nullable(),
+  ordersChangePct: z.number().nullable(),
+});
+
+const Series = z.object({
+  group: z.string(), // "all", a city, or a segment name
+  totals: z.object({
+    revenue: z.number(),
+    orders: z.number().int().nonnegative(),
+    aov: z.number().nullable(),
+  }),
+  points: z.array(SeriesPoint),
+});
+
+// Gap filling at day granularity is capped so one call can't return years of days
+const MAX_POINTS = 366;
+
+// ---- Calendar Buckets (UTC) ----
+const DAY_MS = 24 * 3600 * 1000;
+
+function bucketStart(date: Date, interval: z.infer<typeof Interval>): Date {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  if (interval === "week") {
+    const sinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - sinceMonday);
+  }
+  if (interval === "month") start.setUTCDate(1);
+  return start;
+}
+
+function nextBucket(start: Date, interval: z.infer<typeof Interval>): Date {
+  const next = new Date(start.getTime());
+  if (interval === "day") next.setUTCDate(next.getUTCDate() + 1);
+  if (interval === "week") next.setUTCDate(next.getUTCDate() + 7);
+  if (interval === "month") next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}
+
+function previousBuckets(
+  start: Date,
+  interval: z.infer<typeof Interval>,
+  count: number,
+): Date {
+  const earlier = new Date(start.getTime());
+  if (interval === "day") earlier.setUTCDate(earlier.getUTCDate() - count);
+  if (interval === "week") earlier.setUTCDate(earlier.getUTCDate() - 7 * count);
+  if (interval === "month") earlier.setUTCMonth(earlier.getUTCMonth() - count);
+  return earlier;
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const changePct = (current: number, previous: number | undefined) =>
+  previous === undefined || previous === 0
+    ? null
+    : round2(((current - previous) / previous) * 100);
+
+function buildSeries(
+  group: string,
+  orders: Order[],
+  buckets: string[],
+  interval: z.infer<typeof Interval>,
+): z.infer<typeof Series> {
+  const byBucket = new Map(buckets.map((b) => [b, { revenue: 0, orders: 0 }]));
+  for (const order of orders) {
+    const bucket = byBucket.get(
+      isoDay(bucketStart(new Date(order.created), interval)),
+    );
+    if (!bucket) continue; // outside the requested range
+    bucket.revenue += order.total;
+    bucket.orders += 1;
+  }
+
+  const points = buckets.map((period, i) => {
+    const { revenue, orders: count } = byBucket.get(period)!;
+    const previous = i > 0 ? byBucket.get(buckets[i - 1]) : undefined;
+    return {
+      period,
+      revenue: round2(revenue),
+      orders: count,
+      aov: count > 0 ? round2(revenue / count) : null,
+      revenueChangePct: changePct(revenue, previous?.revenue),
+      ordersChangePct: changePct(count, previous?.orders),
+    };
+  });
+
+  const totals = [...byBucket.values()];
+  const revenue = totals.reduce((sum, b) => sum + b.revenue, 0);
+  const count = totals.reduce((sum, b) => sum + b.orders, 0);
+  return {
+    group,
+    totals: {
+      revenue: round2(revenue),
+      orders: count,
+      aov: count > 0 ? round2(revenue / count) : null,
+    },
+    points,
+  };
+}
+
+// Accounts in each requested segment, evaluated on current metrics. By default,
+// every segment the caller's role may filter on
+async function segmentMembers(
+  users: User[],
+  orders: Order[],
+  names: string[] | undefined,
+  windowDays: number,
+  role: DemoUserInfo["role"] | undefined,
+): Promise<Map<string, Set<User["id"]>>> {
+  const registered = await listSegments();
+  const segments: Segment[] = names
+    ? names.map((name) => {
+        const segment = registered.find((s) => s.name === name);
+        if (!segment) {
+          throw new ToolError(
+            "INVALID_ARGUMENT",
+            `Unknown segment "${name}". Available: ${registered.map((s) => s.name).join(", ")}`,
+          );
+        }
+        requireSegmentAccess(segment, role);
+        return segment;
+      })
+    : registered.filter((segment) => canFilterSegment(segment, role));
+
+  const windows = analysisWindows(windowDays);
+  const accountIds = users.map((u) => String(u.id));
+  // External signals are only fetched if a segment filters on them
+  const signals = segments.some((s) => s.needsSignals)
+    ? await fetchExternalSignals(accountIds, windowDays)
+    : undefined;
+  const accounts = users.map((user) => {
+    const id = String(user.id);
+    const support = signals?.support?.[id];
+    return {
+      user,
+      metrics: {
+        ...orderMetrics(
+          orders.filter((o) => o.user_id === user.id),
+          windows,
+        ),
+        nps: signals?.nps?.[id] ?? null,
+        openP1Tickets: support?.openP1Tickets ?? 0,
+        slaBreachesWindow: support?.slaBreachesWindow ?? 0,
+      },
+    };
+  });
+
+  return new Map(
+    segments.map((segment) => [
+      segment.name,
+      new Set(
+        filterBySegment(accounts, segment, (a) => a.metrics).map(
+          (a) => a.user.id,
+        ),
+      ),
+    ]),
+  );
+}
+
+// --- Tool: revenue_timeseries (revenue, orders and AOV over time) ---
+
+const RevenueTimeseriesOutput = z.object({
+  series: z.array(Series),
+  metadata: z.object({
+    executedBy: z.string(),
+    interval: Interval,
+    since: z.string(),
+    until: z.string(),
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
+
+export const revenueTimeseriesTool = createTool({
+  id: "revenue_timeseries",
+  description:
+    "Revenue, order count and average order value per day, week or month, with period-over-period change and empty periods filled with zeros. Optionally one series per customer city or account segment.",
+  inputSchema: RevenueTimeseriesInput,
+  outputSchema: RevenueTimeseriesOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "revenue_timeseries",
+      inputSchema: RevenueTimeseriesInput,
+      outputSchema: RevenueTimeseriesOutput,
+    },
+    async (context, options) => {
+      const { interval, groupBy, windowDays } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth, "read:orders");
+      if (groupBy !== "none") requireAuth(auth, "read:users");
+
+      // Requested range, snapped to whole buckets
+      const until = context.context.until
+        ? new Date(context.context.until)
+        : new Date();
+      const lastBucket = bucketStart(until, interval);
+      const firstBucket = context.context.since
+        ? bucketStart(new Date(context.context.since), interval)
+        : previousBuckets(lastBucket, interval, 11);
+      if (firstBucket > lastBucket) {
+        throw new ToolError(
+          "INVALID_ARGUMENT",
+          "since must be on or before until",
+        );
+      }
+      const buckets: string[] = [];
+      for (let b = firstBucket; b <= lastBucket; b = nextBucket(b, interval)) {
+        buckets.push(isoDay(b));
+        if (buckets.length > MAX_POINTS) {
+          throw new ToolError(
+            "LIMIT_EXCEEDED",
+            `Range covers more than ${MAX_POINTS} ${interval}s; use a larger interval or a shorter range`,
+          );
+        }
+      }
+      const rangeEnd = nextBucket(lastBucket, interval).getTime() - DAY_MS;
+
+      console.error(
+        `[revenue_timeseries] User: ${auth.user?.username}, ${buckets[0]}..${isoDay(new Date(rangeEnd))} by ${interval}, grouped by ${groupBy}`,
+      );
+
+      // Row-level security is applied before any grouping
+      const { users, orders, rowPolicies } = await loadVisibleTables(
+        auth,
+        groupBy === "none" ? ["orders"] : ["users", "orders"],
+      );
+
+      let groups: [string, Order[]][];
+      if (groupBy === "none") {
+        groups = [["all", orders]];
+      } else if (groupBy === "city") {
+        const cityOf = new Map(users.map((u) => [u.id, u.city]));
+        const cities = [...new Set(users.map((u) => u.city))].sort();
+        groups = cities.map((city) => [
+          city,
+          orders.filter((o) => cityOf.get(o.user_id) === city),
+        ]);
+      } else {
+        const members = await segmentMembers(
+          users,
+          orders,
+          context.context.segments,
+          windowDays,
+          auth.user?.role,
+        );
+        groups = [...members.entries()].map(([name, ids]) => [
+          name,
+          orders.filter((o) => ids.has(o.user_id)),
+        ]);
+      }
+
+      const series = groups.map(([group, groupOrders]) =>
+        buildSeries(group, groupOrders, buckets, interval),
+      );
+
+      // Column redaction; the output schema is fixed, so hidden fields are masked
+      const role = auth.user?.role;
+      const pointRedaction = redactNested(
+        series.map((s) => [s.totals, ...s.points]),
+        orderMoneyLineage("revenue", "aov"),
+        role,
+        { removeHidden: false },
+      );
+      const redactedSeries = series.map((s, i) => {
+        const [totals, ...points] = pointRedaction.rows[i];
+        return { ...s, totals, points } as z.infer<typeof Series>;
+      });
+
+      return {
+        series: redactedSeries,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+          interval,
+          since: buckets[0],
+          until: isoDay(new Date(rangeEnd)),
+          redactedColumns: pointRedaction.redactedColumns,
+          rowPolicies,
+        },
+      };
+    },
+    (input, output) => ({
+      permission:
+        input.groupBy === "none" ? "read:orders" : "read:orders, read:users",
+      rowCount: output?.series.length,
+    }),
+  ),
+});
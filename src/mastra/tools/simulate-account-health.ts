@@ -0,0 +1,200 @@
+import { z } from "zod";
+import { createTool } from "@mastra/core/tools";
+import { authenticateRequest, requireAuth } from "../mcp/utils";
+import {
+  accountNameLineage,
+  RedactedColumnSchema,
+  redactRows,
+} from "../mcp/redaction";
+import { AppliedRowPolicySchema, loadVisibleTables } from "../mcp/row-security";
+import { policyId, resolveScoringPolicy } from "../mcp/scoring-policy";
+import {
+  AccountMetrics,
+  AccountMetricsSchema,
+  currentAccountMetrics,
+  NextTierSchema,
+  redactScores,
+  scoreAccount,
+  SignalContributionsSchema,
+  spendDelta,
+  TierSchema,
+} from "../mcp/account-scoring";
+import { withAudit } from "../mcp/audit-log";
+import { ToolError } from "../mcp/errors";
+
+const SimulateAccountHealthInput = z.object({
+  accountId: z.string(),
+  overrides: AccountMetricsSchema.partial().describe(
+    'Metric values to assume, e.g. { "openP1Tickets": 0 } for "what if we closed the P1 tickets". spendDeltaPct is recomputed when spendWindow or spendPrevWindow change, unless given.',
+  ),
+  windowDays: z.number().int().positive().max(365).default(90),
+  policy: z
+    .string()
+    .optional()
+    .describe(
+      'Scoring policy as "name" (latest version) or "name@version". Defaults to the configured default policy.',
+    ),
+});
+
+const ScenarioResult = z.object({
+  healthScore: z.number().min(0).max(100),
+  tier: TierSchema,
+  metrics: AccountMetricsSchema,
+  contributions: SignalContributionsSchema,
+  nextTier: NextTierSchema,
+  reasons: z.array(z.string()),
+});
+
+// --- Tool: simulate_account_health (what-if scoring, nothing is stored) ---
+
+const SimulateAccountHealthOutput = z.object({
+  accountId: z.string(),
+  name: z.string(),
+  policy: z.string(),
+  before: ScenarioResult,
+  after: ScenarioResult,
+  changes: z.object({
+    scoreDelta: z.number(),
+    tierChanged: z.boolean(),
+    // Metrics that differ between the two scenarios
+    metrics: z.array(
+      z.object({
+        metric: z.string(),
+        before: z.number().nullable(),
+        after: z.number().nullable(),
+      }),
+    ),
+    reasonsResolved: z.array(z.string()),
+    reasonsAdded: z.array(z.string()),
+  }),
+  metadata: z.object({
+    executedBy: z.string(),
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
+});
+
+export const simulateAccountHealthTool = createTool({
+  id: "simulate_account_health",
+  description:
+    "What-if analysis for one account: rescore it with some metrics overridden (e.g. P1 tickets closed, NPS improved) and compare score, tier and reasons before and after. Nothing is saved.",
+  inputSchema: SimulateAccountHealthInput,
+  outputSchema: SimulateAccountHealthOutput,
+  // @ts-expect-error TODO MCPTool type is not compatible with createTool
+  execute: withAudit(
+    {
+      id: "simulate_account_health",
+      inputSchema: SimulateAccountHealthInput,
+      outputSchema: SimulateAccountHealthOutput,
+    },
+    async (context, options) => {
+      const { accountId, overrides, windowDays } = context.context;
+      const auth = authenticateRequest(options);
+
+      requireAuth(auth, "read:users");
+      const policy = await resolveScoringPolicy(context.context.policy);
+
+      // Row-level security: the account must be visible to the caller
+      const { users, orders, rowPolicies } = await loadVisibleTables(auth, [
+        "users",
+        "orders",
+      ]);
+      const user = users.find((u) => String(u.id) === accountId);
+      if (!user) {
+        throw new ToolError("NOT_FOUND", `Account ${accountId} not found`);
+      }
+
+      // Baseline: the same metrics compute_account_health would use today
+      const { metrics: current, supportAvailable } =
+        await currentAccountMetrics(
+          accountId,
+          orders.filter((o) => o.user_id === user.id),
+          windowDays,
+        );
+
+      // Scenario: overrides on top of the baseline, keeping derived metrics consistent
+      const simulated: AccountMetrics = { ...current, ...overrides };
+      if (
+        overrides.spendDeltaPct === undefined &&
+        (overrides.spendWindow !== undefined ||
+          overrides.spendPrevWindow !== undefined)
+      ) {
+        simulated.spendDeltaPct = spendDelta(
+          simulated.spendWindow,
+          simulated.spendPrevWindow,
+        );
+      }
+      // Overriding a support metric supplies the data a failed provider couldn't
+      const simulatedSupport =
+        supportAvailable ||
+        overrides.openP1Tickets !== undefined ||
+        overrides.slaBreachesWindow !== undefined;
+
+      const score = (metrics: AccountMetrics, supportAvailable: boolean) => {
+        const result = scoreAccount(metrics, policy, supportAvailable);
+        return {
+          healthScore: Math.round(result.score),
+          tier: result.tier,
+          metrics,
+          contributions: result.contributions,
+          nextTier: result.nextTier,
+          reasons: result.reasons,
+        };
+      };
+      const before = score(current, supportAvailable);
+      const after = score(simulated, simulatedSupport);
+
+      // Column redaction; the output schema is fixed, so hidden fields are masked
+      const role = auth.user?.role;
+      const nameRedaction = redactRows(
+        [{ name: user.name }],
+        accountNameLineage,
+        role,
+        { removeHidden: false },
+      );
+      const scoreRedaction = redactScores([before, after], role);
+      const [redactedBefore, redactedAfter] = scoreRedaction.rows;
+
+      const changes = {
+        scoreDelta: after.healthScore - before.healthScore,
+        tierChanged: after.tier !== before.tier,
+        metrics: AccountMetricsSchema.keyof()
+          .options.filter((m) => current[m] !== simulated[m])
+          .map((m) => ({
+            metric: m,
+            before: redactedBefore.metrics[m],
+            after: redactedAfter.metrics[m],
+          })),
+        reasonsResolved: before.reasons.filter(
+          (r) => !after.reasons.includes(r),
+        ),
+        reasonsAdded: after.reasons.filter((r) => !before.reasons.includes(r)),
+      };
+
+      console.error(
+        `[simulate_account_health] ${auth.user?.username}: account ${accountId} ${before.healthScore} (${before.tier}) -> ${after.healthScore} (${after.tier})`,
+      );
+
+      return {
+        accountId,
+        name: nameRedaction.rows[0].name,
+        policy: policyId(policy),
+        before: redactedBefore,
+        after: redactedAfter,
+        changes,
+        metadata: {
+          executedBy: auth.user?.username || "unknown",
+          redactedColumns: [
+            ...nameRedaction.redactedColumns,
+            ...scoreRedaction.redactedColumns,
+          ],
+          rowPolicies,
+        },
+      };
+    },
+    (_input, output) => ({
+      permission: "read:users",
+      rowCount: output ? 1 : undefined, // the one account, scored twice
+    }),
+  ),
+});
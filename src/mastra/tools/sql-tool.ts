@@ -1,84 +1,87 @@
 import { z } from "zod";
 import { authenticateRequest, requireAuth } from "../mcp/utils";
-import { orders, users } from "../mcp/mock-data";
+import { ColumnType, DataSource, getDataSource } from "../mcp/data-source";
+import {
+  bindParameters,
+  parseSelect,
+  QueryParamsSchema,
+  referencedTables,
+} from "../mcp/sql-parser";
+import {
+  hiddenColumnsFor,
+  hiddenColumnsReport,
+  RedactedColumnSchema,
+  redactRows,
+  restrictedColumnsFor,
+} from "../mcp/redaction";
+import {
+  AppliedRowPolicySchema,
+  resolveRowSecurity,
+} from "../mcp/row-security";
+import {
+  decodeCursor,
+  encodeCursor,
+  queryFingerprint,
+} from "../mcp/pagination";
+import {
+  describeColumns,
+  formatResult,
+  ResultColumnSchema,
+  ResultFormatSchema,
+} from "../mcp/result-format";
+import { requiredPermissionsFor, rowLimitFor } from "../mcp/query-plan";
+import { withAudit } from "../mcp/audit-log";
 import { createTool } from "@mastra/core/tools";
-import { MCPTool } from "@mastra/mcp";
 
-// Simple SQL parser for demo purposes
-function parseSQL(sql: string): {
-  table?: string;
-  operation: string;
-  error?: string;
-} {
-  const trimmed = sql.trim().toLowerCase();
-
-  if (!trimmed.startsWith("select")) {
-    return { operation: "invalid", error: "Only SELECT queries are allowed." };
-  }
-
-  if (trimmed.includes("users")) {
-    return { table: "users", operation: "select" };
-  } else if (trimmed.includes("orders")) {
-    return { table: "orders", operation: "select" };
-  } else {
-    return {
-      operation: "select",
-      error: "Table not found. Available tables: users, orders",
-    };
+// Declared column types of the tables a query reads, keyed by "table.column"
+async function sourceColumnTypes(
+  dataSource: DataSource,
+  tables: string[],
+): Promise<Record<string, ColumnType>> {
+  const types: Record<string, ColumnType> = {};
+  for (const table of tables) {
+    const { columns } = await dataSource.describeTable(table);
+    columns.forEach((c) => (types[`${table}.${c.name}`] = c.type));
   }
-}
-
-function executeQuery(sql: string, limit: number): any[] {
-  const parsed = parseSQL(sql);
-
-  if (parsed.error) {
-    throw new Error(parsed.error);
-  }
-
-  const trimmed = sql.trim().toLowerCase();
-
-  // Handle basic queries for demonstration
-  if (trimmed.includes("distinct") && trimmed.includes("city")) {
-    const cities = [...new Set(users.map((u) => u.city))];
-    return cities.map((city) => ({ city }));
-  }
-
-  if (
-    trimmed.includes("join") ||
-    (trimmed.includes("users") && trimmed.includes("orders"))
-  ) {
-    // Simple join simulation
-    const result = users.map((user) => {
-      const userOrders = orders.filter((o) => o.user_id === user.id);
-      const totalSpend = userOrders.reduce(
-        (sum, order) => sum + order.total,
-        0,
-      );
-      return {
-        id: user.id,
-        name: user.name,
-        city: user.city,
-        joined: user.joined,
-        total_spend: totalSpend,
-        order_count: userOrders.length,
-      };
-    });
-    return result.slice(0, limit);
-  }
-
-  if (parsed.table === "users") {
-    return users.slice(0, limit);
-  } else if (parsed.table === "orders") {
-    return orders.slice(0, limit);
-  }
-
-  // Default: return users
-  return users.slice(0, limit);
+  return types;
 }
 
 const RunSqlInput = z.object({
-  sql: z.string().describe("A SELECT-only SQL query. Consider adding LIMIT."),
+  sql: z
+    .string()
+    .describe(
+      "A SELECT-only SQL query. Supports WHERE, explicit JOIN ... ON, GROUP BY with COUNT/SUM/AVG/MIN/MAX, HAVING, ORDER BY and LIMIT/OFFSET. Consider adding LIMIT.",
+    ),
+  params: QueryParamsSchema.optional().describe(
+    'Bind values for placeholders: an array for "?" placeholders, or an object for ":name" placeholders. Values are bound, never spliced into the SQL.',
+  ),
   limit: z.number().int().positive().max(200).default(50),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Opaque nextCursor from a previous call with the same sql and params, to fetch the next page.",
+    ),
+  format: ResultFormatSchema.default("json").describe(
+    'Result encoding: "json" returns row objects in rows; "columnar", "csv" and "markdown" return the data in data (fewer tokens for large results).',
+  ),
+});
+
+const RunSqlOutput = z.object({
+  rows: z.array(z.record(z.any())),
+  rowCount: z.number(),
+  format: ResultFormatSchema,
+  columns: z.array(ResultColumnSchema),
+  data: z.union([z.string(), z.record(z.array(z.any()))]).optional(),
+  hasMore: z.boolean(),
+  nextCursor: z.string().optional(),
+  metadata: z.object({
+    executedBy: z.string(),
+    permission: z.string(),
+    filteredByRole: z.boolean(),
+    redactedColumns: z.array(RedactedColumnSchema),
+    rowPolicies: z.array(AppliedRowPolicySchema),
+  }),
 });
 
 export const runSqlTool = createTool({
@@ -86,100 +89,112 @@ export const runSqlTool = createTool({
   description:
     "Execute a read-only SQL query (SELECT only) against the demo DB. Requires appropriate permissions.",
   inputSchema: RunSqlInput,
-  outputSchema: z.object({
-    rows: z.array(z.record(z.any())),
-    rowCount: z.number(),
-    metadata: z.object({
-      executedBy: z.string(),
-      permission: z.string(),
-      filteredByRole: z.boolean(),
-      error: z.string().optional(),
-    }),
-  }),
+  outputSchema: RunSqlOutput,
   // @ts-expect-error TODO MCPTool type is not compatible with createTool
-  execute: (async (context, options) => {
-    try {
-      let { sql, limit } = context.context;
+  execute: withAudit(
+    { id: "run_sql", inputSchema: RunSqlInput, outputSchema: RunSqlOutput },
+    async (context, options) => {
+      const { sql, params, limit, cursor, format } = context.context;
 
       // Authentication and authorization
       const auth = authenticateRequest(options);
       requireAuth(auth);
 
-      // Check specific permissions based on query
-      const parsed = parseSQL(sql);
-      let requiredPermission = "read:users";
-
-      if (parsed.table === "orders" || sql.toLowerCase().includes("orders")) {
-        requiredPermission = "read:orders";
-        requireAuth(auth, requiredPermission);
-      } else if (
-        sql.toLowerCase().includes("join") ||
-        sql.toLowerCase().includes("orders")
-      ) {
-        requiredPermission = "read:orders";
-        requireAuth(auth, requiredPermission);
-      }
+      // Guardrails: parse first so only supported SELECT syntax gets through,
+      // then bind parameters into the parsed statement
+      const statement = bindParameters(parseSelect(sql), params);
+
+      // Check specific permissions based on the tables the query touches
+      const dataSource = await getDataSource();
+      const permissions = await requiredPermissionsFor(dataSource, statement);
+      permissions.forEach((permission) => requireAuth(auth, permission));
+      const requiredPermission = permissions.join(", ");
+
+      // Resume from a cursor issued to this caller for this exact query
+      const fingerprint = queryFingerprint({ sql, params });
+      const pageOffset = cursor
+        ? decodeCursor(cursor, auth, "run_sql", fingerprint)
+        : 0;
+
+      // Row-level security for the tables this query reads
+      const rowSecurity = await resolveRowSecurity(
+        dataSource,
+        auth,
+        referencedTables(statement),
+      );
 
       console.error(
         `[run_sql] User: ${auth.user?.username}, Permission: ${requiredPermission}, Query: ${sql.slice(0, 50)}...`,
       );
 
-      // Guardrails: SELECT-only + implicit LIMIT
-      if (!/^\s*select/i.test(sql)) {
-        throw new Error("Only SELECT queries are allowed.");
-      }
-
-      if (!/\blimit\b/i.test(sql)) {
-        sql = `${sql.trim()} LIMIT ${limit}`;
-      }
-
-      // Role-based row filtering
-      let effectiveLimit = limit;
-      let filteredByRole = false;
+      // Role-based row filtering (readonly users get max 10 rows)
+      const { effectiveLimit, filteredByRole } = rowLimitFor(
+        auth.user?.role,
+        limit,
+      );
 
-      if (auth.user?.role === "readonly") {
-        effectiveLimit = Math.min(limit, 10); // Readonly users get max 10 rows
-        filteredByRole = true;
-      }
+      // Execute the query through the configured data source; the effective limit acts
+      // as an implicit LIMIT and also caps any LIMIT written in the query
+      const result = await dataSource.query(statement, {
+        maxRows: effectiveLimit,
+        skipRows: pageOffset,
+        hiddenColumns: hiddenColumnsFor(auth.user?.role),
+        restrictedColumns: restrictedColumnsFor(auth.user?.role),
+        rowFilters: rowSecurity.filters,
+      });
+
+      // Column-level redaction follows each output column back to its sources
+      const { rows, redactedColumns } = redactRows(
+        result.rows,
+        result.lineage,
+        auth.user?.role,
+      );
 
-      // Execute the query using our in-memory data
-      try {
-        const rows = executeQuery(sql, effectiveLimit);
+      // Typed column metadata, then encode the rows in the requested format
+      const columns = describeColumns(
+        result.columns,
+        rows,
+        result.lineage,
+        await sourceColumnTypes(dataSource, referencedTables(statement)),
+      );
+      const formatted = formatResult(format, result.columns, rows);
 
-        return {
-          rows,
-          rowCount: rows.length,
-          metadata: {
-            executedBy: auth.user?.username || "unknown",
-            permission: requiredPermission,
-            filteredByRole,
-          },
-        };
-      } catch (error) {
-        // Return structured error response instead of throwing
-        return {
-          rows: [],
-          rowCount: 0,
-          metadata: {
-            executedBy: auth.user?.username || "unknown",
-            permission: requiredPermission,
-            filteredByRole,
-            error: error instanceof Error ? error.message : String(error),
-          },
-        };
-      }
-    } catch (error) {
-      // Outer try-catch for auth/parsing errors
       return {
-        rows: [],
-        rowCount: 0,
+        rows: formatted.rows,
+        rowCount: rows.length,
+        format,
+        columns,
+        ...(formatted.data !== undefined ? { data: formatted.data } : {}),
+        hasMore: result.hasMore,
+        ...(result.hasMore
+          ? {
+              nextCursor: encodeCursor(
+                auth,
+                "run_sql",
+                fingerprint,
+                pageOffset + rows.length,
+              ),
+            }
+          : {}),
         metadata: {
-          executedBy: "unknown",
-          permission: "unknown",
-          filteredByRole: false,
-          error: error instanceof Error ? error.message : String(error),
+          executedBy: auth.user?.username || "unknown",
+          permission: requiredPermission,
+          filteredByRole,
+          redactedColumns: [
+            ...hiddenColumnsReport(
+              auth.user?.role,
+              referencedTables(statement),
+            ),
+            ...redactedColumns,
+          ],
+          rowPolicies: rowSecurity.applied,
         },
       };
-    }
-  }) as MCPTool<typeof RunSqlInput>["execute"],
+    },
+    (input, output) => ({
+      sql: input.sql,
+      permission: output?.metadata.permission,
+      rowCount: output?.rowCount,
+    }),
+  ),
 });